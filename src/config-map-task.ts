@@ -4,17 +4,37 @@
  *-----------------------------------------------------------------------------------------------*/
 import { RunnerHandler } from './oc-exec';
 import { InstallHandler } from './oc-install';
+import { VersionHandler } from './oc-version';
 import * as auth from './oc-auth';
+import { verifyConnection } from './oc-preflight';
+import { downloadSecureFile } from './utils/secure-file';
 import { ConfigMap } from './config-map';
 
 import task = require('azure-pipelines-task-lib/task');
 
 async function run(): Promise<void> {
-  const version = task.getInput('version');
+  const endpoint = auth.getOpenShiftEndpoint();
+  await auth.loadCertificateAuthority(
+    endpoint,
+    task.getInput('certificateAuthoritySecureFile')
+  );
+  const secureFile: string = task.getInput('secureFile');
+  const version = secureFile
+    ? await downloadSecureFile(secureFile)
+    : await VersionHandler.resolveAutoVersion(task.getInput('version'), endpoint);
   const agentOS = task.osType();
   const useLocalOc: boolean = task.getBoolInput('useLocalOc');
   const proxy: string = task.getInput('proxy');
-  const ocPath = await InstallHandler.installOc(version, agentOS, useLocalOc, proxy);
+  const checksum: string = task.getInput('checksum');
+  const architecture: string = task.getInput('architecture');
+  const ocPath = await InstallHandler.installOc(
+    version,
+    agentOS,
+    useLocalOc,
+    proxy,
+    checksum,
+    architecture
+  );
   if (ocPath === null) {
     throw new Error('no oc binary found');
   }
@@ -24,7 +44,12 @@ async function run(): Promise<void> {
   const properties = task.getInput('properties');
   const configMap = new ConfigMap(configMapName, properties);
 
-  await auth.createKubeConfig(auth.getOpenShiftEndpoint(), ocPath, agentOS);
+  await auth.createKubeConfig(endpoint, agentOS, {
+    useHomeKubeConfig: task.getBoolInput('useHomeKubeConfig'),
+    context: task.getInput('context'),
+    namespace
+  });
+  await verifyConnection(ocPath);
   await RunnerHandler.execOc(ocPath, configMap.patchCmd(namespace));
 }
 
@@ -6,11 +6,40 @@ export const LINUX = 'linux';
 export const MACOSX = 'macosx';
 export const WIN = 'windows';
 export const LATEST = 'latest';
+export const AUTO_VERSION = 'auto';
 
 export const OC_TAR_GZ = 'oc.tar.gz';
 export const OC_ZIP = 'oc.zip';
+export const OC_TOOL_NAME = 'oc';
 
 export const OPENSHIFT_SERVICE_NAME = 'openshiftService';
+export const ADDITIONAL_SERVICES = 'additionalServices';
 export const BASIC_AUTHENTICATION = 'UsernamePassword';
 export const TOKEN_AUTHENTICATION = 'Token';
 export const NO_AUTHENTICATION = 'None';
+export const CERTIFICATE_AUTHENTICATION = 'Certificate';
+export const WORKLOAD_IDENTITY_AUTHENTICATION = 'WorkloadIdentityFederation';
+
+export const SHA256SUM_FILE = 'sha256sum.txt';
+export const REQUIRE_CHECKSUM = 'requireChecksum';
+export const REQUIRE_CHECKSUM_VARIABLE = 'OpenShift.RequireChecksum';
+
+export const MIRROR_URL = 'mirrorUrl';
+export const MIRROR_USERNAME = 'mirrorUsername';
+export const MIRROR_PASSWORD = 'mirrorPassword';
+export const MIRROR_TOKEN = 'mirrorToken';
+export const MIRROR_URL_VARIABLE = 'OpenShift.MirrorUrl';
+export const MIRROR_USERNAME_VARIABLE = 'OpenShift.MirrorUsername';
+export const MIRROR_PASSWORD_VARIABLE = 'OpenShift.MirrorPassword';
+export const MIRROR_TOKEN_VARIABLE = 'OpenShift.MirrorToken';
+export const DOWNLOAD_RETENTION_VARIABLE = 'OpenShift.DownloadRetentionDays';
+export const KUBECONFIG_TASK_VARIABLE = 'kubeconfigPath';
+export const OAUTH_TOKEN_TASK_VARIABLE = 'oauthToken';
+export const CONTEXTS_VARIABLE = 'contexts';
+export const CONTEXT_VARIABLE_PREFIX = 'context.';
+export const OUTPUT_VARIABLE = 'output';
+
+export const AMD64 = 'amd64';
+export const ARM64 = 'arm64';
+export const PPC64LE = 'ppc64le';
+export const S390X = 's390x';
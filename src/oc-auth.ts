@@ -2,19 +2,45 @@
  *  Copyright (c) Red Hat, Inc. All rights reserved.
  *  Licensed under the MIT License. See LICENSE file in the project root for license information.
  *-----------------------------------------------------------------------------------------------*/
-import { RunnerHandler } from './oc-exec';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as https from 'https';
+import { URL, URLSearchParams } from 'url';
 import {
   OPENSHIFT_SERVICE_NAME,
+  ADDITIONAL_SERVICES,
   BASIC_AUTHENTICATION,
   TOKEN_AUTHENTICATION,
-  NO_AUTHENTICATION
+  NO_AUTHENTICATION,
+  CERTIFICATE_AUTHENTICATION,
+  WORKLOAD_IDENTITY_AUTHENTICATION,
+  KUBECONFIG_TASK_VARIABLE,
+  OAUTH_TOKEN_TASK_VARIABLE,
+  CONTEXTS_VARIABLE,
+  CONTEXT_VARIABLE_PREFIX
 } from './constants';
+import { classifyConnectionError } from './oc-preflight';
+import { downloadSecureFile } from './utils/secure-file';
 
 import task = require('azure-pipelines-task-lib/task');
 import tl = require('azure-pipelines-task-lib/task');
 import path = require('path');
+import yaml = require('js-yaml');
+import fetch = require('node-fetch');
+
+const SERVER_TIMEOUT = 30000;
+const OAUTH_CHALLENGING_CLIENT = 'openshift-challenging-client';
+const SHA256_TOKEN_PREFIX = 'sha256~';
+const OIDC_API_VERSION = '7.1';
+const SERVICE_ENDPOINT_API_VERSION = '7.1';
+const TOKEN_EXCHANGE_GRANT_TYPE =
+  'urn:ietf:params:oauth:grant-type:token-exchange';
+const ID_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:id_token';
 
 export interface OpenShiftEndpoint {
+  /** id of the service connection */
+  id?: string;
+
   /** URL to the OpenShiftServer */
   serverUrl: string;
 
@@ -28,15 +54,23 @@ export interface OpenShiftEndpoint {
 }
 
 /**
- * @return the OpenShift endpoint authorization as referenced by the task property 'openshiftService'.
+ * @param clusterConnection the id or name of the service connection. Defaults to the service connection
+ * referenced by the task property 'openshiftService'.
+ * @return the OpenShift endpoint authorization of the service connection.
  */
-export function getOpenShiftEndpoint(): OpenShiftEndpoint {
-  const clusterConnection = task.getInput(OPENSHIFT_SERVICE_NAME);
-
-  const auth = task.getEndpointAuthorization(clusterConnection, false);
-  const serverUrl = task.getEndpointUrl(clusterConnection, false);
+export function getOpenShiftEndpoint(
+  clusterConnection: string = task.getInput(OPENSHIFT_SERVICE_NAME)
+): OpenShiftEndpoint {
+  const auth = task.getEndpointAuthorization(clusterConnection, true);
+  const serverUrl = task.getEndpointUrl(clusterConnection, true);
+  if (!auth || !serverUrl) {
+    throw new Error(
+      `Service connection ${clusterConnection} is not available. Make sure it exists and the pipeline is authorized to use it.`
+    );
+  }
 
   return {
+    id: clusterConnection,
     serverUrl,
     parameters: auth.parameters,
     scheme: auth.scheme
@@ -44,35 +78,420 @@ export function getOpenShiftEndpoint(): OpenShiftEndpoint {
 }
 
 /**
- * Determines whether certificate authority file should be used.
+ * @return the OpenShift endpoints referenced by the task properties 'openshiftService' and
+ * 'additionalServices', the former first. The agent only passes service connections selected
+ * by a connectedService input, 'additionalServices' lists them separated by commas.
+ */
+export function getOpenShiftEndpoints(): OpenShiftEndpoint[] {
+  const additionalServices = (task.getInput(ADDITIONAL_SERVICES) || '')
+    .split(',')
+    .map(connection => connection.trim())
+    .filter(connection => connection);
+  return [
+    getOpenShiftEndpoint(),
+    ...additionalServices.map(connection => getOpenShiftEndpoint(connection))
+  ];
+}
+
+/**
+ * Creates the agent used to connect to the cluster, honoring the certificate authority, the
+ * client certificate and the acceptUntrustedCerts setting of the endpoint.
+ *
+ * @param endpoint the OpenShift endpoint.
+ * @param url the request URL.
+ * @return the agent or undefined for plain http requests.
+ */
+export function getServerAgent(
+  endpoint: OpenShiftEndpoint,
+  url: string
+): https.Agent | undefined {
+  if (!url.startsWith('https:')) {
+    return undefined;
+  }
+  const {
+    certificateAuthority,
+    certificateAuthorityFile,
+    certificate,
+    key
+  } = endpoint.parameters;
+  let ca: string | Buffer;
+  if (certificateAuthority) {
+    ca = certificateAuthority;
+  } else if (certificateAuthorityFile) {
+    ca = fs.readFileSync(certificateAuthorityFile);
+  }
+  const useCertificate = endpoint.scheme === CERTIFICATE_AUTHENTICATION;
+  return new https.Agent({
+    rejectUnauthorized: endpoint.parameters.acceptUntrustedCerts !== 'true',
+    ca,
+    cert: useCertificate ? certificate : undefined,
+    key: useCertificate ? key : undefined
+  });
+}
+
+/**
+ * Uses the certificate authority bundle of a secure file to verify the certificates of the
+ * clusters, instead of the certificate authorities configured on the service connections.
+ *
+ * @param endpoints the OpenShift endpoint or endpoints, all of them use the bundle.
+ * @param secureFileId the id of the secure file. Nothing is done if not set.
+ */
+export async function loadCertificateAuthority(
+  endpoints: OpenShiftEndpoint | OpenShiftEndpoint[],
+  secureFileId?: string
+): Promise<void> {
+  if (!secureFileId) {
+    return;
+  }
+  const caFile = await downloadSecureFile(secureFileId);
+  const certificateAuthority = fs.readFileSync(caFile, 'utf-8');
+  for (const endpoint of Array.isArray(endpoints) ? endpoints : [endpoints]) {
+    endpoint.parameters.certificateAuthority = certificateAuthority;
+  }
+}
+
+/**
+ * Registers the credentials of the endpoint as secrets so that they are masked in the logs.
  *
  * @param endpoint the OpenShift endpoint.
- * @return oc option for using a certificate authority file.
  */
-export function getCertificateAuthorityFile(
+export function registerSecrets(endpoint: OpenShiftEndpoint): void {
+  for (const key of ['password', 'apitoken', 'key']) {
+    if (endpoint.parameters[key]) {
+      tl.setSecret(endpoint.parameters[key]);
+    }
+  }
+}
+
+/**
+ * Obtains an OAuth access token for the username and password of the endpoint using the
+ * challenge flow of the OpenShift OAuth server, as `oc login` does.
+ *
+ * @param endpoint the OpenShift endpoint using basic authentication.
+ * @return the access token.
+ */
+export async function requestOAuthToken(
   endpoint: OpenShiftEndpoint
-): string {
-  let certificateFile = '';
-  if (endpoint.parameters.certificateAuthorityFile) {
-    certificateFile = `--certificate-authority="${
-      endpoint.parameters.certificateAuthorityFile
-    }"`;
+): Promise<string> {
+  const serverUrl = endpoint.serverUrl.replace(/\/+$/, '');
+  const metadataUrl = `${serverUrl}/.well-known/oauth-authorization-server`;
+  tl.debug(`fetching ${metadataUrl}`);
+  const metadataResponse = await fetch(metadataUrl, {
+    agent: getServerAgent(endpoint, metadataUrl),
+    timeout: SERVER_TIMEOUT
+  });
+  if (!metadataResponse.ok) {
+    return Promise.reject(
+      new Error(
+        `Unable to discover the OAuth server of ${serverUrl}: ${metadataResponse.status} ${metadataResponse.statusText}`
+      )
+    );
   }
-  return certificateFile;
+  const metadata = await metadataResponse.json();
+
+  const authorizeUrl = new URL(metadata.authorization_endpoint);
+  authorizeUrl.searchParams.set('response_type', 'token');
+  authorizeUrl.searchParams.set('client_id', OAUTH_CHALLENGING_CLIENT);
+  const credentials = Buffer.from(
+    `${endpoint.parameters.username}:${endpoint.parameters.password}`
+  ).toString('base64');
+  tl.setSecret(credentials);
+
+  tl.debug(`requesting token from ${authorizeUrl.origin}`);
+  const response = await fetch(authorizeUrl.toString(), {
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      'X-CSRF-Token': '1'
+    },
+    redirect: 'manual',
+    agent: getServerAgent(endpoint, authorizeUrl.toString()),
+    timeout: SERVER_TIMEOUT
+  });
+  if (response.status === 401) {
+    return Promise.reject(
+      new Error(
+        `Login failed for user ${endpoint.parameters.username}: invalid username or password.`
+      )
+    );
+  }
+
+  const location = response.headers.get('location');
+  const token = location
+    ? new URLSearchParams(
+        new URL(location, authorizeUrl.toString()).hash.substr(1)
+      ).get('access_token')
+    : null;
+  if (!token) {
+    return Promise.reject(
+      new Error(
+        `Unable to obtain an OAuth token from ${authorizeUrl.origin}: ${response.status} ${response.statusText}`
+      )
+    );
+  }
+  tl.setSecret(token);
+  return token;
 }
 
 /**
- * Determines whether certificate verification should be skipped.
+ * Requests an OIDC ID token for the service connection from Azure DevOps, as issued to pipelines
+ * using workload identity federation.
  *
  * @param endpoint the OpenShift endpoint.
- * @return oc option for skipping certificate verification.
+ * @return the ID token.
+ */
+export async function requestIdToken(
+  endpoint: OpenShiftEndpoint
+): Promise<string> {
+  const requestUri = tl.getVariable('System.OidcRequestUri');
+  const accessToken = tl.getEndpointAuthorizationParameter(
+    'SYSTEMVSSCONNECTION',
+    'AccessToken',
+    true
+  );
+  if (!requestUri || !accessToken || !endpoint.id) {
+    return Promise.reject(
+      new Error(
+        `Unable to request an ID token for service connection ${endpoint.id}. Make sure the pipeline is allowed to use workload identity federation.`
+      )
+    );
+  }
+
+  const url = `${requestUri}?api-version=${OIDC_API_VERSION}&serviceConnectionId=${encodeURIComponent(
+    endpoint.id
+  )}`;
+  tl.debug(`requesting ID token from ${requestUri}`);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: '{}',
+    timeout: SERVER_TIMEOUT
+  });
+  const body = response.ok ? await response.json() : undefined;
+  if (!body || !body.oidcToken) {
+    return Promise.reject(
+      new Error(
+        `Unable to request an ID token for service connection ${endpoint.id}: ${response.status} ${response.statusText}`
+      )
+    );
+  }
+  tl.setSecret(body.oidcToken);
+  return body.oidcToken;
+}
+
+/**
+ * Exchanges an ID token for a cluster token at the token exchange endpoint of the OIDC identity
+ * provider configured on the endpoint, following RFC 8693.
+ *
+ * @param endpoint the OpenShift endpoint using workload identity federation.
+ * @param idToken the ID token of the pipeline.
+ * @return the cluster token.
+ */
+export async function exchangeIdToken(
+  endpoint: OpenShiftEndpoint,
+  idToken: string
+): Promise<string> {
+  const { tokenExchangeUrl, audience, clientId } = endpoint.parameters;
+  const params = new URLSearchParams();
+  params.set('grant_type', TOKEN_EXCHANGE_GRANT_TYPE);
+  params.set('subject_token', idToken);
+  params.set('subject_token_type', ID_TOKEN_TYPE);
+  if (audience) {
+    params.set('audience', audience);
+  }
+  if (clientId) {
+    params.set('client_id', clientId);
+  }
+
+  tl.debug(`exchanging ID token at ${tokenExchangeUrl}`);
+  const response = await fetch(tokenExchangeUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params.toString(),
+    agent: getServerAgent(endpoint, tokenExchangeUrl),
+    timeout: SERVER_TIMEOUT
+  });
+  const body = response.ok ? await response.json() : undefined;
+  if (!body || !body.access_token) {
+    return Promise.reject(
+      new Error(
+        `Unable to exchange the ID token at ${tokenExchangeUrl}: ${response.status} ${response.statusText}`
+      )
+    );
+  }
+  tl.setSecret(body.access_token);
+  return body.access_token;
+}
+
+/**
+ * Obtains a cluster token for an endpoint using workload identity federation. The ID token of the
+ * pipeline is exchanged at the token exchange endpoint if one is configured, otherwise it is used
+ * as is, which requires the cluster to trust the Azure DevOps issuer.
+ *
+ * @param endpoint the OpenShift endpoint using workload identity federation.
+ * @return the cluster token.
+ */
+export async function requestFederatedToken(
+  endpoint: OpenShiftEndpoint
+): Promise<string> {
+  const idToken = await requestIdToken(endpoint);
+  if (!endpoint.parameters.tokenExchangeUrl) {
+    return idToken;
+  }
+  return exchangeIdToken(endpoint, idToken);
+}
+
+/**
+ * Determines the name of the OAuthAccessToken object of an access token. Tokens prefixed with
+ * `sha256~` are stored under the hash of the token, older tokens under the token itself.
+ *
+ * @param token the access token.
+ * @return the name of the OAuthAccessToken object.
+ */
+export function getOAuthAccessTokenName(token: string): string {
+  if (!token.startsWith(SHA256_TOKEN_PREFIX)) {
+    return token;
+  }
+  const hash = crypto
+    .createHash('sha256')
+    .update(token.substr(SHA256_TOKEN_PREFIX.length))
+    .digest('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `${SHA256_TOKEN_PREFIX}${hash}`;
+}
+
+function oauthTokenVariable(endpoint: OpenShiftEndpoint): string {
+  // one variable per service connection, so that the tokens of all connections are revoked
+  return endpoint.id
+    ? `${OAUTH_TOKEN_TASK_VARIABLE}.${endpoint.id}`
+    : OAUTH_TOKEN_TASK_VARIABLE;
+}
+
+/**
+ * Revokes the OAuth access token obtained by the task, if any, by deleting its OAuthAccessToken
+ * object as `oc logout` does. Tokens configured in the service connection are never revoked.
+ *
+ * @param endpoint the OpenShift endpoint the token was obtained from.
  */
-export function skipTlsVerify(endpoint: OpenShiftEndpoint): string {
-  let cmdSkipTlsVerify = '';
-  if (endpoint.parameters.acceptUntrustedCerts === 'true') {
-    cmdSkipTlsVerify = '--insecure-skip-tls-verify ';
+export async function revokeOAuthToken(
+  endpoint: OpenShiftEndpoint
+): Promise<void> {
+  const token = tl.getTaskVariable(oauthTokenVariable(endpoint));
+  if (!token) {
+    tl.debug('no OAuth token to revoke');
+    return;
+  }
+  tl.setSecret(token);
+
+  const tokenName = getOAuthAccessTokenName(token);
+  tl.setSecret(tokenName);
+  const url = `${endpoint.serverUrl.replace(
+    /\/+$/,
+    ''
+  )}/apis/oauth.openshift.io/v1/oauthaccesstokens/${encodeURIComponent(
+    tokenName
+  )}`;
+  const response = await fetch(url, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${token}` },
+    agent: getServerAgent(endpoint, url),
+    timeout: SERVER_TIMEOUT
+  });
+  if (response.status === 401 || response.status === 404) {
+    tl.debug(`OAuth token already expired or revoked: ${response.status}`);
+  } else if (!response.ok) {
+    return Promise.reject(
+      new Error(
+        `Unable to revoke the OAuth token: ${response.status} ${response.statusText}`
+      )
+    );
+  } else {
+    console.log(`Logged out of ${endpoint.serverUrl}`);
+  }
+  tl.setTaskVariable(oauthTokenVariable(endpoint), '', true);
+}
+
+function toBase64(pem: string): string {
+  return Buffer.from(pem).toString('base64');
+}
+
+function buildUserKubeConfig(
+  endpoint: OpenShiftEndpoint,
+  principal: string,
+  user: { [key: string]: string }
+): string {
+  const serverUrl = new URL(endpoint.serverUrl);
+  // same naming as oc login, e.g. api-cluster-example-com:6443
+  const clusterName = serverUrl.host.replace(/\./g, '-');
+  const userName = `${principal}/${clusterName}`;
+  const contextName = `${clusterName}/${principal}`;
+
+  const cluster: { [key: string]: string | boolean } = {
+    server: endpoint.serverUrl.replace(/\/+$/, '')
+  };
+  if (endpoint.parameters.certificateAuthority) {
+    cluster['certificate-authority-data'] = toBase64(
+      endpoint.parameters.certificateAuthority
+    );
+  } else if (endpoint.parameters.certificateAuthorityFile) {
+    cluster['certificate-authority'] =
+      endpoint.parameters.certificateAuthorityFile;
+  } else if (endpoint.parameters.acceptUntrustedCerts === 'true') {
+    cluster['insecure-skip-tls-verify'] = true;
   }
-  return cmdSkipTlsVerify;
+
+  return yaml.safeDump({
+    apiVersion: 'v1',
+    kind: 'Config',
+    clusters: [{ name: clusterName, cluster }],
+    users: [{ name: userName, user }],
+    contexts: [
+      {
+        name: contextName,
+        context: { cluster: clusterName, user: userName }
+      }
+    ],
+    'current-context': contextName,
+    preferences: {}
+  });
+}
+
+/**
+ * Creates a kubeconfig authenticating against the endpoint with a bearer token.
+ *
+ * @param endpoint the OpenShift endpoint.
+ * @param token the bearer token.
+ * @return the kubeconfig in YAML format.
+ */
+export function buildKubeConfig(
+  endpoint: OpenShiftEndpoint,
+  token: string
+): string {
+  return buildUserKubeConfig(
+    endpoint,
+    endpoint.parameters.username || 'token',
+    { token }
+  );
+}
+
+/**
+ * Creates a kubeconfig authenticating against the endpoint with the client certificate and
+ * private key of the endpoint.
+ *
+ * @param endpoint the OpenShift endpoint using certificate authentication.
+ * @return the kubeconfig in YAML format.
+ */
+export function buildCertificateKubeConfig(
+  endpoint: OpenShiftEndpoint
+): string {
+  return buildUserKubeConfig(endpoint, 'certificate', {
+    'client-certificate-data': toBase64(endpoint.parameters.certificate),
+    'client-key-data': toBase64(endpoint.parameters.key)
+  });
 }
 
 /**
@@ -105,86 +524,422 @@ export function userHome(osType: string): string {
   return workingDir;
 }
 
+/**
+ * Determines where the kubeconfig of the task is written. By default every task writes its own
+ * kubeconfig into the agent temp directory, so that credentials never outlive the job.
+ *
+ * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+ * @param useHomeKubeConfig whether to write to the kubeconfig in the home directory of the user instead.
+ * @return the fully qualified path of the kubeconfig.
+ */
+export function getKubeConfigPath(
+  osType: string,
+  useHomeKubeConfig = false
+): string {
+  const tempDir = tl.getVariable('Agent.TempDirectory');
+  if (useHomeKubeConfig || !tempDir) {
+    if (!useHomeKubeConfig) {
+      tl.debug('Agent.TempDirectory not set, using the home directory');
+    }
+    return path.join(userHome(osType), '.kube', 'config');
+  }
+  return path.join(
+    tempDir,
+    `kubeconfig-${crypto.randomBytes(8).toString('hex')}`
+  );
+}
+
 /**
  * Writes the cluster auth config to disk and sets the KUBECONFIG env variable
  *
  * @param config The cluster auth config to write to disk
- * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+ * @param kubeConfigPath the fully qualified path of the kubeconfig.
  */
-export function authKubeConfig(config: string, osType: string): void {
+export function authKubeConfig(config: string, kubeConfigPath: string): void {
   if (config === null || config === '') {
     throw new Error('empty or null kubeconfig is not allowed');
   }
 
-  const kubeConfigDir = path.join(userHome(osType), '.kube');
+  const kubeConfigDir = path.dirname(kubeConfigPath);
   if (!tl.exist(kubeConfigDir)) {
     tl.mkdirP(kubeConfigDir);
   }
 
-  const kubeConfig = path.join(kubeConfigDir, 'config');
-  tl.writeFile(kubeConfig, config);
-  tl.setVariable('KUBECONFIG', kubeConfig);
+  tl.writeFile(kubeConfigPath, config, { mode: 0o600 });
+  tl.setVariable('KUBECONFIG', kubeConfigPath);
 }
 
 /**
- * Exports the KUBECONFIG environment variable.
- *
- * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+ * Deletes the kubeconfig written by the task, if any. Called by the post-job execution of the tasks.
  */
-export function exportKubeConfig(osType: string): void {
-  const kubeConfig = path.join(userHome(osType), '.kube', 'config');
-  tl.setVariable('KUBECONFIG', kubeConfig);
+export function removeKubeConfig(): void {
+  const kubeConfigPath = tl.getTaskVariable(KUBECONFIG_TASK_VARIABLE);
+  if (!kubeConfigPath) {
+    tl.debug('no kubeconfig to remove');
+    return;
+  }
+  tl.rmRF(kubeConfigPath);
+  console.log(`Removed kubeconfig ${kubeConfigPath}`);
 }
 
 /**
- * Creates the kubeconfig based on the endpoint authorization retrieved
- * from the OpenShift service connection.
+ * Switches the kubeconfig to the specified context and sets the default namespace of the
+ * current context.
  *
- * @param endpoint The OpenShift endpoint.
- * @param ocPath fully qualified path to the oc binary.
- * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+ * @param config the kubeconfig in YAML format.
+ * @param context the name of the context to use. If not set, the current context is kept.
+ * @param namespace the default namespace to set on the context. If not set, the namespace of the context is kept.
+ * @return the updated kubeconfig in YAML format.
+ * @throws Error in case the context does not exist in the kubeconfig.
  */
-export async function createKubeConfig(
-  endpoint: OpenShiftEndpoint,
-  ocPath: string,
-  osType: string
-): Promise<void> {
-  if (endpoint === null) {
-    throw new Error('null endpoint is not allowed');
+export function selectContext(
+  config: string,
+  context?: string,
+  namespace?: string
+): string {
+  if ((!context && !namespace) || !config) {
+    return config;
+  }
+
+  const kubeConfig = yaml.safeLoad(config) as any;
+  if (!kubeConfig || typeof kubeConfig !== 'object') {
+    throw new Error('The kubeconfig of the service connection is invalid.');
   }
+  const contexts: any[] = kubeConfig.contexts || [];
+  const contextName = context || kubeConfig['current-context'];
+  const selected = contexts.find(entry => entry.name === contextName);
+  if (!selected) {
+    const available = contexts.map(entry => entry.name).join(', ') || 'none';
+    throw new Error(
+      contextName
+        ? `Context '${contextName}' not found in the kubeconfig. Available contexts: ${available}.`
+        : `The kubeconfig has no current context. Available contexts: ${available}.`
+    );
+  }
+
+  kubeConfig['current-context'] = contextName;
+  if (namespace) {
+    selected.context = { ...selected.context, namespace };
+  }
+  console.log(
+    namespace
+      ? `Using context ${contextName} and namespace ${namespace}`
+      : `Using context ${contextName}`
+  );
+  return yaml.safeDump(kubeConfig);
+}
+
+function toConnectionError(err: Error, endpoint: OpenShiftEndpoint): Error {
+  // network and TLS errors of the request, as opposed to errors reported by the server
+  return err.name === 'FetchError'
+    ? new Error(classifyConnectionError(err.message, endpoint.serverUrl))
+    : err;
+}
 
+/**
+ * Creates the kubeconfig of a single endpoint.
+ *
+ * @param endpoint The OpenShift endpoint.
+ * @return the kubeconfig in YAML format.
+ */
+export async function buildEndpointKubeConfig(
+  endpoint: OpenShiftEndpoint
+): Promise<string> {
   // potential values for EndpointAuthorization:
   //
   // parameters:{"apitoken":***}, scheme:'Token'
   // parameters:{"username":***,"password":***}, scheme:'UsernamePassword'
+  // parameters:{"certificate":***,"key":***,"certificateAuthority":***}, scheme:'Certificate'
+  // parameters:{"tokenExchangeUrl":***,"audience":***,"clientId":***}, scheme:'WorkloadIdentityFederation'
   // parameters:{"kubeconfig":***}, scheme:'None'
+  //
+  // the kubeconfig is written directly so that credentials never appear on a command line
+  registerSecrets(endpoint);
   const authType = endpoint.scheme;
-  let useCertificateOrSkipTls = getCertificateAuthorityFile(endpoint);
-  if (useCertificateOrSkipTls === '') {
-    useCertificateOrSkipTls = skipTlsVerify(endpoint);
-  }
   switch (authType) {
     case BASIC_AUTHENTICATION: {
-      await RunnerHandler.execOc(
-        ocPath,
-        `login ${useCertificateOrSkipTls} -u ${endpoint.parameters.username} -p ${endpoint.parameters.password} ${endpoint.serverUrl}`
+      const token = await requestOAuthToken(endpoint).catch((err: Error) =>
+        Promise.reject(toConnectionError(err, endpoint))
       );
-      break;
-    }
-    case TOKEN_AUTHENTICATION: {
-      await RunnerHandler.execOc(
-        ocPath,
-        `login ${useCertificateOrSkipTls} --token ${endpoint.parameters.apitoken} ${endpoint.serverUrl}`
-      );
-      break;
+      // remembered for the post-job execution revoking the token
+      tl.setTaskVariable(oauthTokenVariable(endpoint), token, true);
+      return buildKubeConfig(endpoint, token);
     }
-    case NO_AUTHENTICATION: {
-      authKubeConfig(endpoint.parameters.kubeconfig, osType);
-      break;
+    case TOKEN_AUTHENTICATION:
+      return buildKubeConfig(endpoint, endpoint.parameters.apitoken);
+    case CERTIFICATE_AUTHENTICATION:
+      return buildCertificateKubeConfig(endpoint);
+    case WORKLOAD_IDENTITY_AUTHENTICATION: {
+      const token = await requestFederatedToken(endpoint);
+      return buildKubeConfig(endpoint, token);
     }
+    case NO_AUTHENTICATION:
+      return endpoint.parameters.kubeconfig;
     default:
       throw new Error(`unknown authentication type '${authType}'`);
   }
+}
+
+function addEntries(target: any[], entries: any[], kind: string): void {
+  (entries || []).forEach(entry => {
+    const existing = target.find(other => other.name === entry.name);
+    if (!existing) {
+      target.push(entry);
+    } else if (JSON.stringify(existing) !== JSON.stringify(entry)) {
+      throw new Error(
+        `The service connections define different ${kind}s named '${entry.name}'.`
+      );
+    }
+  });
+}
+
+/**
+ * Looks up the name of the service connection of the endpoint in Azure DevOps. The agent only
+ * passes the id of service connections to tasks.
+ *
+ * @param endpoint the OpenShift endpoint.
+ * @return the name or undefined if it cannot be looked up, e.g. for lack of permissions.
+ */
+export async function getServiceConnectionName(
+  endpoint: OpenShiftEndpoint
+): Promise<string | undefined> {
+  const collectionUri = tl.getVariable('System.TeamFoundationCollectionUri');
+  const projectId = tl.getVariable('System.TeamProjectId');
+  const accessToken = tl.getEndpointAuthorizationParameter(
+    'SYSTEMVSSCONNECTION',
+    'AccessToken',
+    true
+  );
+  if (!endpoint.id || !collectionUri || !projectId || !accessToken) {
+    return undefined;
+  }
 
-  exportKubeConfig(osType);
+  const url = `${collectionUri.replace(
+    /\/+$/,
+    ''
+  )}/${projectId}/_apis/serviceendpoint/endpoints/${encodeURIComponent(
+    endpoint.id
+  )}?api-version=${SERVICE_ENDPOINT_API_VERSION}`;
+  try {
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      timeout: SERVER_TIMEOUT
+    });
+    const body = response.ok ? await response.json() : undefined;
+    if (!body || !body.name) {
+      tl.debug(
+        `Unable to look up the name of service connection ${endpoint.id}: ${response.status} ${response.statusText}`
+      );
+      return undefined;
+    }
+    return body.name;
+  } catch (err) {
+    tl.debug(
+      `Unable to look up the name of service connection ${endpoint.id}: ${err.message}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Determines the names of the kubeconfig entries of the endpoints: the names of their service
+ * connections, reduced to characters usable in commands and variables. Endpoints whose names
+ * cannot be looked up or clash with the name of another endpoint are named after their ids.
+ *
+ * @param endpoints the OpenShift endpoints.
+ * @return the names in the order of the endpoints, undefined for endpoints without id.
+ */
+export async function getKubeConfigNames(
+  endpoints: OpenShiftEndpoint[]
+): Promise<string[]> {
+  const names = await Promise.all(
+    endpoints.map(async endpoint =>
+      ((await getServiceConnectionName(endpoint)) || '')
+        .replace(/[^\w.-]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+    )
+  );
+  return names.map((name, index) =>
+    name && names.indexOf(name) === names.lastIndexOf(name)
+      ? name
+      : endpoints[index].id
+  );
+}
+
+/**
+ * Names the clusters, users and contexts of the kubeconfig of an endpoint after the endpoint, so
+ * that the entries of several endpoints do not clash, e.g. for two service accounts of the same
+ * cluster. Entries of kubeconfigs defining several of a kind are prefixed with the name instead.
+ *
+ * @param config the kubeconfig in YAML format.
+ * @param name the name, usually the name of the service connection.
+ * @return the renamed kubeconfig in YAML format.
+ */
+export function nameKubeConfig(config: string, name: string): string {
+  const kubeConfig = yaml.safeLoad(config) as any;
+  if (!kubeConfig || typeof kubeConfig !== 'object') {
+    throw new Error('The kubeconfig of the service connection is invalid.');
+  }
+  const rename = (entries: any[]): { [name: string]: string } =>
+    (entries || []).reduce((names, entry) => {
+      const newName = entries.length === 1 ? name : `${name}/${entry.name}`;
+      const renamed = { ...names, [entry.name]: newName };
+      entry.name = newName;
+      return renamed;
+    }, {});
+  const clusters = rename(kubeConfig.clusters);
+  const users = rename(kubeConfig.users);
+  const contexts = rename(kubeConfig.contexts);
+  (kubeConfig.contexts || []).forEach(entry => {
+    const context = entry.context || {};
+    entry.context = {
+      ...context,
+      cluster: clusters[context.cluster] || context.cluster,
+      user: users[context.user] || context.user
+    };
+  });
+  const current = kubeConfig['current-context'];
+  kubeConfig['current-context'] = contexts[current] || current;
+  return yaml.safeDump(kubeConfig, { skipInvalid: true });
+}
+
+/**
+ * Merges the kubeconfigs of several endpoints into one. The current context of the first
+ * kubeconfig becomes the current context of the merged kubeconfig.
+ *
+ * @param configs the kubeconfigs in YAML format.
+ * @return the merged kubeconfig in YAML format. A single kubeconfig is returned unchanged.
+ */
+export function mergeKubeConfigs(configs: string[]): string {
+  if (configs.length === 1) {
+    return configs[0];
+  }
+
+  const merged = {
+    apiVersion: 'v1',
+    kind: 'Config',
+    clusters: [],
+    users: [],
+    contexts: [],
+    'current-context': undefined,
+    preferences: {}
+  };
+  configs.forEach(config => {
+    const kubeConfig = yaml.safeLoad(config) as any;
+    if (!kubeConfig || typeof kubeConfig !== 'object') {
+      throw new Error('The kubeconfig of the service connection is invalid.');
+    }
+    addEntries(merged.clusters, kubeConfig.clusters, 'cluster');
+    addEntries(merged.users, kubeConfig.users, 'user');
+    addEntries(merged.contexts, kubeConfig.contexts, 'context');
+    merged['current-context'] =
+      merged['current-context'] || kubeConfig['current-context'];
+  });
+  return yaml.safeDump(merged, { skipInvalid: true });
+}
+
+function getCurrentContext(config: string): string | undefined {
+  try {
+    const kubeConfig = yaml.safeLoad(config) as any;
+    return kubeConfig && typeof kubeConfig === 'object'
+      ? kubeConfig['current-context']
+      : undefined;
+  } catch (ex) {
+    tl.debug(`Unable to determine current context. Err ${ex}`);
+    return undefined;
+  }
+}
+
+/**
+ * Exposes the context of every endpoint as variable `context.<connection>` and as JSON map in the
+ * `contexts` output variable, so that later steps can switch between the clusters.
+ *
+ * @param names the names of the endpoints as determined by getKubeConfigNames.
+ * @param configs the kubeconfigs of the endpoints.
+ */
+export function exportContextVariables(
+  names: string[],
+  configs: string[]
+): void {
+  const contexts: { [connection: string]: string } = {};
+  names.forEach((name, index) => {
+    const context = getCurrentContext(configs[index]);
+    if (!name || !context) {
+      return;
+    }
+    contexts[name] = context;
+    tl.setVariable(
+      `${CONTEXT_VARIABLE_PREFIX}${name.replace(/[^\w-]/g, '_')}`,
+      context
+    );
+  });
+  tl.setVariable(CONTEXTS_VARIABLE, JSON.stringify(contexts));
+}
+
+export interface KubeConfigOptions {
+  /** whether to write to the kubeconfig in the home directory of the user */
+  useHomeKubeConfig?: boolean;
+
+  /** name of the kubeconfig context to use */
+  context?: string;
+
+  /** default namespace of the context */
+  namespace?: string;
+
+  /** whether to expose the context of every endpoint in variables */
+  exportContexts?: boolean;
+}
+
+/**
+ * Creates the kubeconfig based on the endpoint authorization retrieved
+ * from the OpenShift service connections. With several endpoints, the kubeconfig contains a
+ * context per endpoint and the context of the first endpoint is used unless another one is requested.
+ *
+ * @param endpoints The OpenShift endpoint or endpoints.
+ * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+ * @param options kubeconfig options.
+ */
+export async function createKubeConfig(
+  endpoints: OpenShiftEndpoint | OpenShiftEndpoint[],
+  osType: string,
+  options: KubeConfigOptions = {}
+): Promise<void> {
+  const endpointList = Array.isArray(endpoints) ? endpoints : [endpoints];
+  if (endpointList.length === 0 || endpointList.includes(null)) {
+    throw new Error('null endpoint is not allowed');
+  }
+
+  const kubeConfigPath = getKubeConfigPath(osType, options.useHomeKubeConfig);
+  const names =
+    endpointList.length > 1 || options.exportContexts
+      ? await getKubeConfigNames(endpointList)
+      : [];
+  // endpoints are authenticated one after the other, so that logins are logged in order
+  const configs: string[] = [];
+  for (const [index, endpoint] of endpointList.entries()) {
+    // eslint-disable-next-line no-await-in-loop
+    const config = await buildEndpointKubeConfig(endpoint);
+    // every endpoint gets a context named after its service connection
+    configs.push(
+      endpointList.length > 1 && names[index]
+        ? nameKubeConfig(config, names[index])
+        : config
+    );
+  }
+  authKubeConfig(
+    selectContext(
+      mergeKubeConfigs(configs),
+      options.context,
+      options.namespace
+    ),
+    kubeConfigPath
+  );
+  if (options.exportContexts) {
+    exportContextVariables(names, configs);
+  }
+
+  if (kubeConfigPath !== getKubeConfigPath(osType, true)) {
+    // remembered for the post-job execution deleting the kubeconfig
+    tl.setTaskVariable(KUBECONFIG_TASK_VARIABLE, kubeConfigPath);
+  }
 }
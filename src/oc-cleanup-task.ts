@@ -0,0 +1,57 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as auth from './oc-auth';
+
+import task = require('azure-pipelines-task-lib/task');
+
+/**
+ * Revokes the tokens of all endpoints, a failure does not keep the tokens of the other endpoints
+ * from being revoked.
+ *
+ * @return the number of tokens which could not be revoked.
+ */
+async function run(): Promise<number> {
+  try {
+    const endpoints = auth.getOpenShiftEndpoints();
+    await auth.loadCertificateAuthority(
+      endpoints,
+      task.getInput('certificateAuthoritySecureFile')
+    );
+    return await endpoints.reduce(
+      (previous, endpoint) =>
+        previous.then(failures =>
+          auth
+            .revokeOAuthToken(endpoint)
+            .then(() => failures)
+            .catch((err: Error) => {
+              task.warning(
+                `Unable to log out of ${endpoint.serverUrl}: ${err.message}`
+              );
+              return failures + 1;
+            })
+        ),
+      Promise.resolve(0)
+    );
+  } finally {
+    auth.removeKubeConfig();
+  }
+}
+
+run()
+  .then(failures => {
+    if (failures > 0) {
+      task.setResult(
+        task.TaskResult.SucceededWithIssues,
+        `${failures} token(s) could not be revoked`
+      );
+    } else {
+      task.setResult(task.TaskResult.Succeeded, 'cleanup successful');
+    }
+  })
+  .catch((err: Error) => {
+    // cleanup problems must not fail the job
+    task.warning(`Cleanup failed: ${err.message}`);
+    task.setResult(task.TaskResult.SucceededWithIssues, err.message);
+  });
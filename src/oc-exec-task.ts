@@ -4,37 +4,126 @@
  *-----------------------------------------------------------------------------------------------*/
 import { RunnerHandler } from './oc-exec';
 import { InstallHandler } from './oc-install';
+import { VersionHandler } from './oc-version';
 import * as auth from './oc-auth';
+import { verifyConnection } from './oc-preflight';
+import { parseOutputVariables, setOutputVariables } from './oc-output';
+import { createRetryOptions } from './oc-retry';
+import { createTimeoutOptions } from './oc-timeout';
+import { execScript, parsePatterns, toFailurePolicy } from './oc-script';
+import { downloadSecureFile } from './utils/secure-file';
 
 import task = require('azure-pipelines-task-lib/task');
 
-async function run(): Promise<void> {
-  const version = task.getInput('version');
+async function run(): Promise<task.TaskResult> {
+  const endpoint = auth.getOpenShiftEndpoint();
+  await auth.loadCertificateAuthority(
+    endpoint,
+    task.getInput('certificateAuthoritySecureFile')
+  );
+  const secureFile: string = task.getInput('secureFile');
+  const version = secureFile
+    ? await downloadSecureFile(secureFile)
+    : await VersionHandler.resolveAutoVersion(task.getInput('version'), endpoint);
   const argLine = task.getInput('cmd');
+  const script = task.getInput('script');
+  if (!argLine === !script) {
+    throw new Error('Specify either a command or a script to run.');
+  }
+  const failurePolicy = toFailurePolicy(task.getInput('failurePolicy'));
+  const ignorePatterns = parsePatterns(task.getInput('ignorePatterns'));
+  const outputVariables = parseOutputVariables(
+    task.getInput('outputVariables')
+  );
+  if (script && outputVariables.length > 0) {
+    throw new Error(
+      'Output variables can only be captured from a command, not from a script.'
+    );
+  }
+  const retryOptions = createRetryOptions(
+    task.getInput('retryAttempts'),
+    task.getInput('retryDelay'),
+    task.getInput('retryBackoff'),
+    parsePatterns(task.getInput('retryPatterns'), 'retry'),
+    task.getBoolInput('retryNonIdempotent')
+  );
+  const timeoutOptions = createTimeoutOptions(
+    task.getInput('timeout'),
+    task.getInput('onTimeout')
+  );
   const ignoreFlag: boolean = task.getBoolInput('ignoreFlag');
   const useLocalOc: boolean = task.getBoolInput('useLocalOc');
   const proxy: string = task.getInput('proxy');
+  const checksum: string = task.getInput('checksum');
+  const architecture: string = task.getInput('architecture');
   const agentOS = task.osType();
 
   const ocPath = await InstallHandler.installOc(
     version,
     agentOS,
     useLocalOc,
-    proxy
+    proxy,
+    checksum,
+    architecture
   );
   if (ocPath === null) {
     throw new Error('no oc binary found');
   }
 
-  await auth.createKubeConfig(auth.getOpenShiftEndpoint(), ocPath, agentOS);
-  await RunnerHandler.execOc(ocPath, argLine, ignoreFlag);
+  await auth.createKubeConfig(endpoint, agentOS, {
+    useHomeKubeConfig: task.getBoolInput('useHomeKubeConfig'),
+    context: task.getInput('context'),
+    namespace: task.getInput('namespace')
+  });
+  await verifyConnection(ocPath);
+  let timedOut: boolean;
+  if (script) {
+    const results = await execScript(
+      ocPath,
+      script,
+      failurePolicy,
+      ignorePatterns,
+      retryOptions,
+      timeoutOptions
+    );
+    timedOut = results.some(result => result.status === 'timed out');
+  } else {
+    // the output is printed before the values of secret variables can be masked
+    const hideOutput = outputVariables.some(variable => variable.secret);
+    if (hideOutput) {
+      console.log(
+        'The output of the command is not logged as it contains secret output variables.'
+      );
+    }
+    const result = await RunnerHandler.execOc(
+      ocPath,
+      argLine,
+      ignoreFlag,
+      retryOptions,
+      timeoutOptions,
+      hideOutput
+    );
+    ({ timedOut } = result);
+    if (result.timedOut && outputVariables.length > 0) {
+      task.warning('The command timed out, the output variables are not set.');
+    } else if (result.code !== 0 && outputVariables.length > 0) {
+      task.warning('The command failed, the output variables are not set.');
+    } else {
+      setOutputVariables(result.stdout, outputVariables);
+    }
+  }
+  return timedOut && timeoutOptions.onTimeout === 'succeedWithIssues'
+    ? task.TaskResult.SucceededWithIssues
+    : task.TaskResult.Succeeded;
 }
 
 run()
-  .then(() => {
+  .then(result => {
     task.setResult(
-      task.TaskResult.Succeeded,
-      'oc command successfully executed.'
+      result,
+      result === task.TaskResult.Succeeded
+        ? 'oc command successfully executed.'
+        : 'oc command timed out.'
     );
   })
   .catch((err: Error) => {
@@ -4,137 +4,340 @@
  *-----------------------------------------------------------------------------------------------*/
 import {
   ToolRunner,
-  IExecOptions,
   IExecSyncResult
 } from 'azure-pipelines-task-lib/toolrunner';
 import * as fs from 'fs';
+import * as os from 'os';
+import { EventEmitter } from 'events';
+import {
+  RetryOptions,
+  findRetryableError,
+  getNonIdempotentCommand,
+  getRetryDelay
+} from './oc-retry';
+import {
+  SpawnedProcess,
+  TimeoutOptions,
+  spawnProcess,
+  terminateProcesses
+} from './oc-timeout';
+import {
+  CommandList,
+  Pipeline,
+  Redirect,
+  parseCommandLine
+} from './utils/shell-parser';
 
 import split = require('argv-split');
 import tl = require('azure-pipelines-task-lib/task');
-import stream = require('stream');
 import sub = require('substituter');
 
+export interface ExecOcResult {
+  /** exit code of the last command run */
+  code: number;
+
+  /** output written to stdout by the commands */
+  stdout: string;
+
+  /** output written to stderr by the commands */
+  stderr: string;
+
+  /** whether a pipeline was terminated because it exceeded the timeout */
+  timedOut?: boolean;
+}
+
+const DEV_NULL = '/dev/null';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 export class RunnerHandler {
   /**
-   * Prepares oc for execution and runs the specified command.
+   * Prepares oc for execution and runs the specified command line. Pipelines joined by `&&`,
+   * `||` and `;` are run in order with shell semantics.
    *
    * @param ocPath absolute path to the oc binary. If null is passed the binary is determined by running 'which oc'.
-   * @param argLine the command to run
+   * @param argLine the command line to run
+   * @param ignoreFlag whether to ignore a non zero exit code of the command line
+   * @param retryOptions how pipelines failing with a transient error are retried, no retries if undefined
+   * @param timeoutOptions how long a pipeline may run and what to do if it takes longer, no timeout if undefined
+   * @param hideOutput whether the stdout of the commands is kept out of the log, e.g. because it contains secrets
+   * @return the exit code and the output of the command line
    */
-  static async execOc(path: string | null, argLine: string, ignoreFlag?: boolean): Promise<void> {
+  static async execOc(path: string | null, argLine: string, ignoreFlag?: boolean, retryOptions?: RetryOptions, timeoutOptions?: TimeoutOptions, hideOutput?: boolean): Promise<ExecOcResult> {
     const ocPath = path === null ? 'oc' : path;
-    const options: IExecOptions | undefined = RunnerHandler.createExecOptions(
-      undefined,
-      ignoreFlag
-    );
-
-    // split cmd based on redirection operators
-    const cmds: string[] = argLine.split(/(?=2(?=>))|(?=[>|])/);
-    const trs: ToolRunner[] = RunnerHandler.initToolRunners(cmds, ocPath);
-    if (trs === []) {
+    const commandList: CommandList = parseCommandLine(argLine);
+    if (commandList.length === 0) {
       tl.debug(`Unable to create any ToolRunner by ${argLine}`);
-      return;
+      return { code: 0, stdout: '', stderr: '', timedOut: false };
+    }
+
+    // first cmd in list has to be oc cmd and user can omit "oc"
+    const [firstCommand] = commandList[0].pipeline.commands;
+    if (!RunnerHandler.isOc(firstCommand.args[0])) {
+      firstCommand.args.unshift('oc');
     }
-    const tr: ToolRunner = RunnerHandler.unifyToolRunners(cmds, trs, options);
-    await tr.exec(options);
 
+    const result = await commandList.reduce(
+      async (previous, entry) => {
+        const previousResult = await previous;
+        if (
+          (entry.operator === '&&' && previousResult.code !== 0) ||
+          (entry.operator === '||' && previousResult.code === 0)
+        ) {
+          tl.debug(`Skipping ${entry.pipeline.text}`);
+          return previousResult;
+        }
+        const pipelineResult = await RunnerHandler.execPipelineWithRetry(
+          entry.pipeline,
+          ocPath,
+          retryOptions,
+          timeoutOptions && timeoutOptions.timeout,
+          hideOutput
+        );
+        if (pipelineResult.timedOut) {
+          const message = `The command '${entry.pipeline.text}' timed out after ${timeoutOptions.timeout / 1000}s.`;
+          if (timeoutOptions.onTimeout === 'fail') {
+            throw new Error(message);
+          }
+          tl.warning(message);
+        }
+        return {
+          // a timeout which does not fail the task counts as success
+          code: pipelineResult.timedOut ? 0 : pipelineResult.code,
+          stdout: previousResult.stdout + pipelineResult.stdout,
+          stderr: previousResult.stderr + pipelineResult.stderr,
+          timedOut: previousResult.timedOut || !!pipelineResult.timedOut,
+          text: entry.pipeline.text
+        };
+      },
+      Promise.resolve({
+        code: 0,
+        stdout: '',
+        stderr: '',
+        timedOut: false,
+        text: argLine
+      })
+    );
+
+    if (result.code && !ignoreFlag) {
+      return Promise.reject(
+        new Error(
+          `The command '${result.text}' failed with exit code ${result.code}`
+        )
+      );
+    }
+    return {
+      code: result.code,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      timedOut: result.timedOut
+    };
   }
 
   /**
-   * Creating a resulting toolrunner to execute user command
+   * Runs a single pipeline and retries it as long as it fails with an error matching one of the
+   * retry patterns. Pipelines running non idempotent oc commands are only retried if the user
+   * opted in.
    *
-   * @param cmds list of commands
-   * @param trs list of toolrunners
+   * @param pipeline the pipeline to run
+   * @param ocPath path oc cli tool
+   * @param retryOptions how the pipeline is retried, no retries if undefined
+   * @param timeout timeout of every attempt in milliseconds, no timeout if undefined or 0
+   * @param hideOutput whether the stdout of the pipeline is kept out of the log
+   * @param attempt the number of the current attempt, starting at 1
    */
-  static unifyToolRunners(cmds: string[], trs: ToolRunner[], options?: IExecOptions): ToolRunner {
-    let i = 0;
-    let trResult: ToolRunner = trs[i];
-    while (++i < cmds.length) {
-      const fstCmd: string = cmds[i - 1];
-      const sndCmd: string = cmds[i];
-      if (!fstCmd.startsWith('|') && sndCmd.startsWith('|')) {
-        trResult = RunnerHandler.buildPipeToolRunner(cmds, trs, i);
-      } else if (sndCmd.startsWith('>') && sndCmd.trim().length > 1) {
-        const event =
-          fstCmd.startsWith('2')
-            ? (RunnerHandler.createExecOptions(options, undefined, true),
-              'stderr')
-            : 'stdout';
-        trResult.on(
-          event,
-          RunnerHandler.writeAfterCommandExecution(sndCmd, fstCmd.startsWith('>'))
-        );
-      }
+  static async execPipelineWithRetry(pipeline: Pipeline, ocPath: string, retryOptions?: RetryOptions, timeout?: number, hideOutput?: boolean, attempt = 1): Promise<ExecOcResult> {
+    const result = await RunnerHandler.execPipeline(pipeline, ocPath, timeout, hideOutput);
+    if (result.code === 0 || result.timedOut || !retryOptions || attempt >= retryOptions.attempts) {
+      return result;
     }
-
-    return trResult;
+    const error = findRetryableError(result.stderr, retryOptions);
+    if (error === undefined) {
+      return result;
+    }
+    const nonIdempotent = getNonIdempotentCommand(pipeline);
+    if (nonIdempotent && !retryOptions.retryNonIdempotent) {
+      console.log(
+        `Not retrying '${pipeline.text}', ${nonIdempotent} is not idempotent. Enable retryNonIdempotent to retry it anyway.`
+      );
+      return result;
+    }
+    const delay = getRetryDelay(retryOptions, attempt);
+    console.log(
+      `${error.trim()}\nRetrying '${pipeline.text}' in ${delay / 1000}s (attempt ${attempt + 1} of ${retryOptions.attempts}).`
+    );
+    await sleep(delay);
+    return RunnerHandler.execPipelineWithRetry(pipeline, ocPath, retryOptions, timeout, hideOutput, attempt + 1);
   }
 
-  static createExecOptions(options?: IExecOptions, ignoreReturnCode?: boolean, failOnStdErr?: boolean): IExecOptions {
-    if (ignoreReturnCode === undefined && failOnStdErr === undefined) {
-      return options;
-    }
+  /**
+   * Runs a single pipeline and resolves with the exit code of its last command and the output
+   * of the pipeline. The commands are spawned directly, so that all processes of the pipe chain
+   * can be terminated when the timeout expires.
+   *
+   * @param pipeline the pipeline to run
+   * @param ocPath path oc cli tool
+   * @param timeout timeout in milliseconds after which all processes of the pipeline are terminated, no timeout if undefined or 0
+   * @param hideOutput whether the stdout of the pipeline is kept out of the log
+   */
+  static async execPipeline(pipeline: Pipeline, ocPath: string, timeout?: number, hideOutput?: boolean): Promise<ExecOcResult> {
+    const output = new EventEmitter();
+    let stdout = '';
+    let stderr = '';
+    output.on('stdout', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    output.on('stderr', (data: Buffer) => {
+      stderr += data.toString();
+    });
+    const { redirects } = pipeline.commands[pipeline.commands.length - 1];
+    RunnerHandler.redirectOutput(output, redirects, hideOutput);
 
-    if (!options) {
-      options = {
-        cwd: process.cwd(),
-        env: ({ ...process.env}) as { [key: string]: string },
-        silent: false,
-        failOnStdErr: failOnStdErr !== undefined ? failOnStdErr : false,
-        ignoreReturnCode:
-          ignoreReturnCode !== undefined ? ignoreReturnCode : false,
-        windowsVerbatimArguments: false,
-        outStream: process.stdout as stream.Writable,
-        errStream: process.stderr as stream.Writable
-      };
-    } else {
-      options.ignoreReturnCode =
-        ignoreReturnCode !== undefined
-          ? ignoreReturnCode
-          : options.ignoreReturnCode;
-      options.failOnStdErr =
-        failOnStdErr !== undefined ? failOnStdErr : options.failOnStdErr;
+    console.log(`[command]${pipeline.text}`);
+    const processes = RunnerHandler.spawnPipeline(pipeline, ocPath, output);
+    let timedOut = false;
+    const timer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          terminateProcesses(processes, `Timeout of ${timeout / 1000}s expired`);
+        }, timeout)
+      : undefined;
+    try {
+      const code = await RunnerHandler.waitForPipeline(processes);
+      return { code, stdout, stderr, timedOut };
+    } finally {
+      clearTimeout(timer);
     }
-    return options;
   }
 
-  static buildPipeToolRunner(cmds: string[], trs: ToolRunner[], index: number): ToolRunner {
-    const nextPipes: number[] = RunnerHandler._getNextPipes(cmds, index);
-    let trPipeResult: ToolRunner = trs[nextPipes[nextPipes.length - 1]];
-    for (let c = nextPipes.length - 2; c >= 0; c--) {
-      trPipeResult = trs[nextPipes[c]].pipeExecOutputToTool(trPipeResult);
+  /**
+   * Spawns the commands of a pipeline and pipes the stdout of each command into the stdin of
+   * the next one. The stdout of the last command and the stderr of all commands are emitted
+   * as stdout and stderr events, except for stderr redirected by a command piped into another
+   * command, which is written where it is redirected to. All tools are resolved before the first command is spawned,
+   * so that no process is left behind if a tool cannot be found.
+   *
+   * @param pipeline the parsed pipeline
+   * @param ocPath path oc cli tool
+   * @param output the emitter of the output of the pipeline
+   * @return the spawned processes, in the order of the commands
+   */
+  static spawnPipeline(pipeline: Pipeline, ocPath: string, output: EventEmitter): SpawnedProcess[] {
+    const tools = pipeline.commands.map(({ args }) =>
+      RunnerHandler.resolveTool(args[0], ocPath)
+    );
+    const processes: SpawnedProcess[] = [];
+    pipeline.commands.forEach(({ args, redirects }, index) => {
+      const tool = tools[index];
+      let stderr = output;
+      if (index < pipeline.commands.length - 1 && redirects.length > 0) {
+        stderr = new EventEmitter();
+        RunnerHandler.redirectOutput(stderr, redirects);
+      }
+      const previous = processes[processes.length - 1];
+      const spawned = spawnProcess(tool, args.slice(1), [
+        previous ? 'pipe' : 'ignore',
+        'pipe',
+        'pipe'
+      ]);
+      tl.debug(`spawned ${spawned.command}`);
+      if (previous) {
+        spawned.process.stdin.on('error', (err: Error) => {
+          // the command may exit before it has read all the output of the previous one
+          tl.debug(`Unable to pipe output into ${tool}. Err ${err}`);
+        });
+        previous.process.stdout.pipe(spawned.process.stdin);
+      }
+      spawned.process.stderr.on('data', (data: Buffer) => {
+        stderr.emit('stderr', data);
+      });
+      processes.push(spawned);
+    });
+    processes[processes.length - 1].process.stdout.on('data', (data: Buffer) => {
+      output.emit('stdout', data);
+    });
+    return processes;
+  }
+
+  /**
+   * Waits until all processes of a pipeline have exited and their output has been read.
+   *
+   * @param processes the processes of the pipeline
+   * @return the exit code of the last process, 128 + the signal number if it has been terminated
+   * by a signal as reported by shells
+   */
+  static async waitForPipeline(processes: SpawnedProcess[]): Promise<number> {
+    const results = await Promise.all(
+      processes.map(
+        ({ command, process }) =>
+          new Promise<number | Error>(resolve => {
+            process.on('error', (err: Error) => {
+              resolve(new Error(`${command} failed. ${err.message}`));
+            });
+            process.on('close', (code: number | null, signal: string | null) => {
+              resolve(
+                code === null
+                  ? 128 + (os.constants.signals[signal as NodeJS.Signals] || 0)
+                  : code
+              );
+            });
+          })
+      )
+    );
+    const error = results.find(result => result instanceof Error);
+    if (error) {
+      return Promise.reject(error);
     }
-    return trs[index - 1].pipeExecOutputToTool(trPipeResult);
+    return results[results.length - 1] as number;
   }
 
-  static writeAfterCommandExecution(cmd: string, append: boolean): (data: any) => void {
-    const writeAfterCommandsExecution = data => {
-      const path = cmd.substring(1).trim();
-      if (append) {
-        fs.appendFile(path, data, err => {
-          if (err) throw err;
-          console.log(`The file ${path} has been saved!`);
-        });
-      } else {
-        fs.writeFile(path, data, err => {
-          if (err) throw err;
-          console.log(`The file ${path} has been saved!`);
-          append = true;
-        });
+  /**
+   * Writes the output of a pipeline to the console or to files, applying the redirections in
+   * order. Files which are not appended to are truncated before the command runs, output
+   * redirected to /dev/null is discarded on every OS.
+   *
+   * @param output the emitter of the stdout and stderr events of the pipeline
+   * @param redirects the redirections of the command
+   * @param hideOutput whether stdout which is not redirected to a file is discarded instead of written to the console
+   */
+  static redirectOutput(output: EventEmitter, redirects: Redirect[], hideOutput?: boolean): void {
+    let writeStdout = (data: Buffer): void => {
+      if (!hideOutput) {
+        process.stdout.write(data);
       }
     };
-    return writeAfterCommandsExecution;
+    let writeStderr = (data: Buffer): void => {
+      process.stderr.write(data);
+    };
+    redirects.forEach(redirect => {
+      if (redirect.target === undefined) {
+        // 2>&1 sends stderr wherever stdout currently goes
+        writeStderr = writeStdout;
+        return;
+      }
+      const { target } = redirect;
+      let writeFile = (data: Buffer): void => {
+        fs.appendFileSync(target, data);
+      };
+      if (target === DEV_NULL) {
+        writeFile = (): void => undefined;
+      } else if (!redirect.append) {
+        fs.writeFileSync(target, '');
+      }
+      if (redirect.fd === 1) {
+        writeStdout = writeFile;
+      } else {
+        writeStderr = writeFile;
+      }
+    });
+    output.on('stdout', writeStdout);
+    output.on('stderr', writeStderr);
   }
 
-  static _getNextPipes(cmds: string[], index: number): number[] {
-    const cmdsWithPipe: number[] = [];
-    for (let i = index; i < cmds.length; i++) {
-      if (!cmds[i].startsWith('|')) {
-        break;
-      }
-      cmdsWithPipe.push(i);
-    }
-    return cmdsWithPipe;
+  static isOc(tool: string): boolean {
+    return tool === 'oc' || tool === 'oc.exe';
   }
 
   /**
@@ -147,62 +350,22 @@ export class RunnerHandler {
   static prepareCmdArguments(argLine: string, removeOc?: boolean): string[] {
     const interpolatedArgs = sub(argLine, process.env);
     let args = split(interpolatedArgs);
-    if (removeOc && (args[0] === 'oc' || args[0] === 'oc.exe')) {
+    if (removeOc && RunnerHandler.isOc(args[0])) {
       args = args.slice(1);
     }
     return args;
   }
 
   /**
-   * Build up a toolrunner based on the command to be executed
-   *
-   * @param cmd command to be executed
-   * @param ocPath path oc cli tool
-   */
-  static prepareToolRunner(cmd: string, ocPath: string): ToolRunner {
-    // first element in each command, without considering redirection operator, has to be the tool needed to execute it (e.g. oc, grep, findstr, ...)
-    let tr: ToolRunner;
-    if (cmd.startsWith('>') || cmd.startsWith('2')) {
-      return tr;
-    }
-
-    cmd = cmd.startsWith('|') ? cmd.substring(1).trim() : cmd.trim();
-    const arg = RunnerHandler.prepareCmdArguments(cmd);
-    // add tool to exec
-    if (arg[0] === 'oc' || arg[0] === 'oc.exe') {
-      tr = tl.tool(ocPath);
-    } else {
-      // if user wants to use a different tool (e.g grep) to work with previous oc command output
-      tr = tl.tool(tl.which(arg[0], true));
-    }
-    // add args to toolrunner
-    for (const argN of arg.slice(1)) {
-      tr.arg(argN);
-    }
-    return tr;
-  }
-
-  /**
-   * Initialize all toolrunners for the list of commands specified
+   * Resolves the executable of a command of a pipeline.
    *
-   * @param cmds list of commands to be executed
+   * @param tool the first element of the command, e.g. oc, grep or findstr
    * @param ocPath path oc cli tool
+   * @return the full path to the executable
    */
-  static initToolRunners(cmds: string[], ocPath: string): ToolRunner[] {
-    if (!cmds[0]) {
-      return [];
-    }
-    // first cmd in list has to be oc cmd and user can omit "oc"
-    if (!cmds[0].startsWith('oc')) {
-      cmds[0] = `oc ${cmds[0]}`;
-    }
-
-    const trs: ToolRunner[] = [];
-    // loop through concatenated commands
-    for (const cmd of cmds) {
-      trs.push(RunnerHandler.prepareToolRunner(cmd, ocPath));
-    }
-    return trs;
+  static resolveTool(tool: string, ocPath: string): string {
+    // if user wants to use a different tool (e.g grep) to work with previous oc command output
+    return RunnerHandler.isOc(tool) ? ocPath : tl.which(tool, true);
   }
 
   static execOcSync(
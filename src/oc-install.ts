@@ -2,36 +2,69 @@
  *  Copyright (c) Red Hat, Inc. All rights reserved.
  *  Licensed under the MIT License. See LICENSE file in the project root for license information.
  *-----------------------------------------------------------------------------------------------*/
+import * as crypto from 'crypto';
 import * as fs from 'fs';
-import {
-  ToolRunner,
-  IExecSyncResult
-} from 'azure-pipelines-task-lib/toolrunner';
+import { fileURLToPath } from 'url';
+import { IExecSyncResult } from 'azure-pipelines-task-lib/toolrunner';
 import { RunnerHandler } from './oc-exec';
-import { LINUX, OC_TAR_GZ, MACOSX, WIN, OC_ZIP, LATEST } from './constants';
-import { unzipArchive } from './utils/utils';
+import { VersionHandler } from './oc-version';
+import { getMirrorConfiguration, getMirrorHeaders } from './oc-mirror';
+import { ToolDescriptor, TOOLS } from './oc-tools';
+import {
+  LINUX,
+  OC_TAR_GZ,
+  MACOSX,
+  WIN,
+  OC_ZIP,
+  LATEST,
+  SHA256SUM_FILE,
+  OC_TOOL_NAME,
+  AMD64,
+  ARM64,
+  PPC64LE,
+  S390X,
+  DOWNLOAD_RETENTION_VARIABLE,
+  REQUIRE_CHECKSUM,
+  REQUIRE_CHECKSUM_VARIABLE
+} from './constants';
+import { unzipArchive, sha256 } from './utils/utils';
+import { downloadFile, getProxyAgent } from './utils/download';
+import { tryAcquireLock, withFileLock } from './utils/lock';
 
 import tl = require('azure-pipelines-task-lib/task');
+import toolLib = require('azure-pipelines-tool-lib/tool');
 import path = require('path');
+import semver = require('semver');
 import validUrl = require('valid-url');
 import fetch = require('node-fetch');
 
+const LOCK_EXTENSION = '.lock';
+const CHECKSUM_EXTENSION = '.sha256';
+const DEFAULT_DOWNLOAD_RETENTION_DAYS = 7;
+
 export class InstallHandler {
   /**
    * Downloads the specified version of the oc CLI and returns the full path to
-   * the executable.
+   * the executable. Explicit versions are cached in the agent tool cache and
+   * reused by subsequent installs on the same agent.
    *
-   * @param downloadVersion the version of `oc` to install.
+   * @param downloadVersion the version of `oc` to install. Either an explicit version, a semver range
+   * (e.g. 4.6.x, ~4.7, >=4.5 <4.8), a release channel (e.g. stable-4.8), an URL or the path
+   * (or file:// URI) of an oc archive on the agent.
    * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'. See https://nodejs.org/api/os.html#os_os_type
    * @param useLocalOc if user prefer to use the current oc cli already installed in his machine
    * @param proxy proxy to use to download oc
+   * @param checksum expected SHA-256 digest of the oc archive. If not specified the mirror's sha256sum.txt is used.
+   * @param arch the architecture of `oc` to install. If not specified the architecture of the agent is used.
    * @return the full path to the installed executable or null if the install failed.
    */
   static async installOc(
     downloadVersion: string,
     osType: string,
     useLocalOc: boolean,
-    proxy: string
+    proxy: string,
+    checksum?: string,
+    arch?: string
   ): Promise<string | null> {
     if (useLocalOc) {
       const localOcPath = InstallHandler.getLocalOcPath(downloadVersion);
@@ -40,31 +73,106 @@ export class InstallHandler {
       }
     }
 
+    const ocArch = InstallHandler.getOcArch(arch);
+    tl.debug(`installing oc for ${osType} ${ocArch}`);
+
     if (!downloadVersion) {
-      downloadVersion = InstallHandler.latestStable(osType);
+      downloadVersion = InstallHandler.latestStable(osType, ocArch);
       if (downloadVersion === null) {
         return Promise.reject(new Error('Unable to determine latest oc download URL'));
       }
     }
 
-    tl.debug('creating download directory');
-    const downloadDir =
-      `${process.env.SYSTEM_DEFAULTWORKINGDIRECTORY  }/.download`;
-    if (!fs.existsSync(downloadDir)) {
-      tl.mkdirP(downloadDir);
+    const localArchive = InstallHandler.getLocalArchivePath(downloadVersion);
+    if (localArchive) {
+      console.log(`Installing oc from ${localArchive}`);
+    } else if (VersionHandler.isVersionRange(downloadVersion)) {
+      const ocUtils = InstallHandler.getOcUtils();
+      const resolvedVersion = await VersionHandler.resolveVersionRange(
+        downloadVersion,
+        [ocUtils.openshiftV3BaseUrl, ocUtils.openshiftV4BaseUrl],
+        proxy
+      );
+      if (!resolvedVersion) {
+        return Promise.reject(
+          new Error(`Unable to find an oc release matching ${downloadVersion}`)
+        );
+      }
+      console.log(
+        `Resolved oc version ${downloadVersion} to ${resolvedVersion}`
+      );
+      downloadVersion = resolvedVersion;
+    } else if (VersionHandler.isChannel(downloadVersion)) {
+      const resolvedVersion = await VersionHandler.resolveChannel(
+        downloadVersion,
+        InstallHandler.getOcUtils().openshiftV4OcpBaseUrl,
+        proxy
+      );
+      if (!resolvedVersion) {
+        return Promise.reject(
+          new Error(`Unable to resolve oc release channel ${downloadVersion}`)
+        );
+      }
+      console.log(
+        `Resolved oc release channel ${downloadVersion} to ${resolvedVersion}`
+      );
+      downloadVersion = resolvedVersion;
     }
 
+    let cacheVersion = InstallHandler.getCacheVersion(downloadVersion);
+    if (cacheVersion) {
+      const cachedOc = InstallHandler.findCachedTool(
+        OC_TOOL_NAME,
+        cacheVersion,
+        osType,
+        ocArch,
+        checksum
+      );
+      if (cachedOc) {
+        return cachedOc;
+      }
+    }
+
+    const downloadDir = InstallHandler.prepareDownloadDir();
+
     let url: string | null;
-    if (validUrl.isWebUri(downloadVersion)) {
+    if (localArchive || validUrl.isWebUri(downloadVersion)) {
       url = downloadVersion;
     } else {
-      url = InstallHandler.ocBundleURL(downloadVersion, osType, false);
+      url = InstallHandler.ocBundleURL(downloadVersion, osType, false, ocArch);
       // check if url is valid otherwise take the latest stable oc cli for this version
       const response = await fetch(url, {
-        method: 'HEAD'
+        method: 'HEAD',
+        headers: getMirrorHeaders(url),
+        agent: getProxyAgent(url, proxy)
       });
       if (!response.ok) {
-        url = InstallHandler.ocBundleURL(downloadVersion, osType, true);
+        url = await InstallHandler.latestPatchURL(
+          downloadVersion,
+          osType,
+          proxy,
+          ocArch
+        );
+        // oc is cached under the version actually downloaded, not the requested one
+        const patchVersion = url
+          ? InstallHandler.getCacheVersion(InstallHandler.getUrlVersion(url))
+          : undefined;
+        if (cacheVersion && patchVersion !== cacheVersion) {
+          tl.debug(`caching oc ${downloadVersion} as ${patchVersion}`);
+          cacheVersion = patchVersion;
+          const cachedOc = cacheVersion
+            ? InstallHandler.findCachedTool(
+                OC_TOOL_NAME,
+                cacheVersion,
+                osType,
+                ocArch,
+                checksum
+              )
+            : undefined;
+          if (cachedOc) {
+            return cachedOc;
+          }
+        }
       }
     }
 
@@ -77,30 +185,196 @@ export class InstallHandler {
       url,
       downloadDir,
       osType,
-      proxy
+      proxy,
+      checksum
     );
     if (ocBinary === null) {
       return Promise.reject(new Error('Unable to download or extract oc binary.'));
     }
 
+    if (cacheVersion) {
+      return InstallHandler.cacheTool(
+        ocBinary,
+        OC_TOOL_NAME,
+        cacheVersion,
+        ocArch
+      );
+    }
+
     return ocBinary;
   }
 
+  /**
+   * Downloads the latest release of each of the specified client tools (e.g. kubectl, helm)
+   * published on the mirror. Tools are installed one after the other.
+   *
+   * @param toolNames the names of the tools to install. See TOOLS for the supported tools.
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param proxy proxy to use to download the tools
+   * @param arch the architecture of the tools to install. If not specified the architecture of the agent is used.
+   * @return the full paths to the installed executables, in the order of the tool names.
+   */
+  static async installTools(
+    toolNames: string[],
+    osType: string,
+    proxy: string,
+    arch?: string
+  ): Promise<string[]> {
+    const unknownTools = toolNames.filter(name => !TOOLS[name]);
+    if (unknownTools.length > 0) {
+      return Promise.reject(
+        new Error(
+          `Unsupported tools: ${unknownTools.join(
+            ', '
+          )}. Supported tools are ${Object.keys(TOOLS).join(', ')}.`
+        )
+      );
+    }
+
+    return toolNames.reduce(
+      async (installed: Promise<string[]>, name: string) => {
+        const toolPaths = await installed;
+        const toolPath = await InstallHandler.installTool(
+          TOOLS[name],
+          osType,
+          proxy,
+          arch
+        );
+        return toolPaths.concat(toolPath);
+      },
+      Promise.resolve([])
+    );
+  }
+
+  /**
+   * Downloads the latest release of a client tool published on the mirror and returns the
+   * full path to the executable. Releases are cached in the agent tool cache under their version.
+   *
+   * @param tool the descriptor of the tool.
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param proxy proxy to use to download the tool
+   * @param arch the architecture of the tool. If not specified the architecture of the agent is used.
+   * @return the full path to the installed executable.
+   */
+  static async installTool(
+    tool: ToolDescriptor,
+    osType: string,
+    proxy: string,
+    arch?: string
+  ): Promise<string> {
+    const toolArch = InstallHandler.getOcArch(arch);
+    tl.debug(`installing ${tool.name} for ${osType} ${toolArch}`);
+
+    const bundle = InstallHandler.getToolBundle(tool, osType, toolArch);
+    if (!bundle) {
+      return Promise.reject(
+        new Error(`${tool.name} is not available for ${osType} ${toolArch}.`)
+      );
+    }
+
+    const baseUrl = `${InstallHandler.getOcUtils().openshiftMirrorUrl}/${
+      tool.path
+    }`;
+    const versions = await VersionHandler.listVersions(baseUrl, proxy);
+    const release = VersionHandler.maxSatisfying(versions, '*');
+    const cacheVersion = release ? VersionHandler.toSemver(release) : null;
+
+    let toolPath = cacheVersion
+      ? InstallHandler.findCachedTool(tool.name, cacheVersion, osType, toolArch)
+      : undefined;
+    if (!toolPath) {
+      const downloadDir = InstallHandler.prepareDownloadDir();
+      const url = `${baseUrl}/${release || LATEST}/${bundle}`;
+      tl.debug(`downloading: ${url}`);
+      const binary = await InstallHandler.downloadAndExtract(
+        url,
+        downloadDir,
+        osType,
+        proxy,
+        undefined,
+        tool.name
+      );
+      if (binary === null) {
+        return Promise.reject(
+          new Error(`Unable to download or extract ${tool.name} binary.`)
+        );
+      }
+
+      toolPath = cacheVersion
+        ? await InstallHandler.cacheTool(
+            binary,
+            tool.name,
+            cacheVersion,
+            toolArch
+          )
+        : binary;
+    }
+
+    const toolVersion = InstallHandler.getToolVersion(toolPath, tool);
+    console.log(
+      `Installed ${tool.name} ${toolVersion || release || LATEST} at ${toolPath}`
+    );
+    return toolPath;
+  }
+
+  /**
+   * Returns the name of the bundle of a tool published by the mirror.
+   *
+   * @param tool the descriptor of the tool.
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param arch the architecture of the tool.
+   * @return the bundle name or null if no bundle is published for the OS and architecture.
+   */
+  static getToolBundle(
+    tool: ToolDescriptor,
+    osType: string,
+    arch: string
+  ): string | null {
+    const bundle = tool.bundles[osType];
+    if (!bundle || !tool.archs.includes(arch)) {
+      tl.debug(`no ${tool.name} bundle available for ${osType} ${arch}`);
+      return null;
+    }
+    return bundle
+      .replace('{arch}', arch)
+      .replace('{archSuffix}', arch === AMD64 ? '' : `-${arch}`);
+  }
+
+  /**
+   * Runs the version command of a tool.
+   *
+   * @param toolPath the full path to the binary of the tool.
+   * @param tool the descriptor of the tool.
+   * @return the first line printed by the version command or undefined if it failed.
+   */
+  static getToolVersion(
+    toolPath: string,
+    tool: ToolDescriptor
+  ): string | undefined {
+    const result = RunnerHandler.execOcSync(toolPath, tool.versionArgs);
+    if (!result || !result.stdout) {
+      tl.debug(`unable to determine version of ${tool.name}`);
+      return undefined;
+    }
+    return result.stdout.trim().split(/\r?\n/)[0];
+  }
+
   /**
    * Determines the latest stable version of the OpenShift CLI on mirror.openshift.
    *
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param arch the architecture of `oc`. Defaults to amd64.
    * @return the url of the latest OpenShift CLI on mirror.openshift.
    */
-  static latestStable(osType: string): string | null {
+  static latestStable(osType: string, arch?: string): string | null {
     tl.debug('determining latest oc version');
 
-    const bundle = InstallHandler.getOcBundleByOS(osType);
+    const bundle = InstallHandler.getOcBundleByOS(osType, arch);
     if (!bundle) {
       tl.debug('Unable to find bundle url');
       return null;
     }
-    const ocUtils = InstallHandler.getOcUtils();
-    const url = `${ocUtils.openshiftV4BaseUrl}/${LATEST}/${bundle}`;
+    const url = `${InstallHandler.getV4BaseUrl(arch)}/${LATEST}/${bundle}`;
 
     tl.debug(`latest stable oc version: ${url}`);
     return url;
@@ -112,10 +386,17 @@ export class InstallHandler {
    *
    * @param {string} version Oc version.
    * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param latest whether the latest patch release listed in oc-utils.json has to be used.
+   * @param arch the architecture of `oc`. Defaults to amd64.
    * @returns {Promise} Promise string representing the URL to the tarball. null is returned
    * if no matching URL can be determined for the given tag.
    */
-  static ocBundleURL(version: string, osType: string, latest?: boolean): string | null {
+  static ocBundleURL(
+    version: string,
+    osType: string,
+    latest?: boolean,
+    arch?: string
+  ): string | null {
     tl.debug(`determining tarball URL for version ${version}`);
 
     if (!version) {
@@ -156,16 +437,21 @@ export class InstallHandler {
       version = ocUtils[`oc${baseVersion}`];
     }
 
+    if (vMajor === 3 && arch && arch !== AMD64) {
+      tl.debug(`oc ${version} is not available for ${arch}`);
+      return null;
+    }
+
     if (vMajor === 3) {
       url = `${ocUtils.openshiftV3BaseUrl}/${version}/`;
     } else if (vMajor === 4) {
-      url = `${ocUtils.openshiftV4BaseUrl}/${version}/`;
+      url = `${InstallHandler.getV4BaseUrl(arch)}/${version}/`;
     } else {
       tl.debug('Invalid version');
       return null;
     }
 
-    const bundle = InstallHandler.getOcBundleByOS(osType);
+    const bundle = InstallHandler.getOcBundleByOS(osType, arch);
     if (!bundle) {
       tl.debug('Unable to find bundle url');
       return null;
@@ -177,7 +463,72 @@ export class InstallHandler {
     return url;
   }
 
-  static getOcBundleByOS(osType: string): string | null {
+  /**
+   * Returns the download URL of the newest patch release of the (major).(minor) of the given version.
+   * The releases are discovered from the mirror directory indexes. If the mirrors cannot be listed
+   * the patch releases maintained in oc-utils.json are used.
+   *
+   * @param version Oc version.
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param proxy proxy to use to fetch the directory indexes
+   * @param arch the architecture of `oc`. Defaults to amd64.
+   * @returns the URL to the tarball or null if no latest patch release can be determined.
+   */
+  static async latestPatchURL(
+    version: string,
+    osType: string,
+    proxy?: string,
+    arch?: string
+  ): Promise<string | null> {
+    const ocUtils = InstallHandler.getOcUtils();
+    const latestPatch = await VersionHandler.latestPatch(
+      version,
+      [ocUtils.openshiftV3BaseUrl, ocUtils.openshiftV4BaseUrl],
+      proxy
+    );
+    if (latestPatch) {
+      console.log(`Using latest patch release ${latestPatch} of oc ${version}`);
+      return InstallHandler.ocBundleURL(latestPatch, osType, false, arch);
+    }
+
+    tl.debug('Unable to discover latest patch release, using oc-utils.json');
+    return InstallHandler.ocBundleURL(version, osType, true, arch);
+  }
+
+  /**
+   * Determines the architecture of `oc` to install.
+   *
+   * @param arch the architecture requested by the user. If not specified or 'auto' the architecture of the agent is used.
+   * @return the architecture as named by the mirror. One of 'amd64', 'arm64', 'ppc64le' or 's390x'.
+   */
+  static getOcArch(arch?: string): string {
+    const requestedArch =
+      arch && arch !== 'auto' ? arch.toLowerCase() : process.arch;
+    switch (requestedArch) {
+      case 'x64':
+      case 'x86_64':
+        return AMD64;
+      case 'aarch64':
+        return ARM64;
+      case 'ppc64':
+        return PPC64LE;
+      default:
+        return requestedArch;
+    }
+  }
+
+  /**
+   * Returns the path of the oc bundle relative to the release directory.
+   *
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param arch the architecture of `oc`. Defaults to amd64.
+   * @return the bundle path or null if no bundle is published for the OS and architecture.
+   */
+  static getOcBundleByOS(osType: string, arch?: string): string | null {
+    if (arch && arch !== AMD64) {
+      return InstallHandler.getOcBundleByArch(osType, arch);
+    }
+
     let url = '';
 
     // determine the bundle path based on the OS type
@@ -203,19 +554,200 @@ export class InstallHandler {
   }
 
   /**
-   * Downloads and extract the oc release archive.
+   * Returns the base URL of the v4 releases of oc. Bundles for architectures other than amd64 are
+   * only published in the `clients/ocp` directory, `clients/oc` has amd64 bundles only.
+   *
+   * @param arch the architecture of `oc`. Defaults to amd64.
+   * @return the base URL, pointing to the mirror if one is configured.
+   */
+  static getV4BaseUrl(arch?: string): string {
+    const ocUtils = InstallHandler.getOcUtils();
+    return arch && arch !== AMD64
+      ? ocUtils.openshiftV4OcpBaseUrl
+      : ocUtils.openshiftV4BaseUrl;
+  }
+
+  /**
+   * Returns the name of the oc bundle published by the v4 mirror for architectures other than amd64.
+   *
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param arch the architecture of `oc`.
+   * @return the bundle name or null if no bundle is published for the OS and architecture.
+   */
+  static getOcBundleByArch(osType: string, arch: string): string | null {
+    switch (osType) {
+      case 'Linux': {
+        if ([ARM64, PPC64LE, S390X].includes(arch)) {
+          return `openshift-client-${LINUX}-${arch}.tar.gz`;
+        }
+        break;
+      }
+      case 'Darwin': {
+        if (arch === ARM64) {
+          return `openshift-client-mac-${arch}.tar.gz`;
+        }
+        break;
+      }
+      default:
+        break;
+    }
+
+    tl.debug(`no oc bundle available for ${osType} ${arch}`);
+    return null;
+  }
+
+  /**
+   * Determines whether the specified version refers to an oc archive on the agent rather
+   * than to a release published on the mirror.
+   *
+   * @param version the version of `oc` requested by the user.
+   * @return the full path to the archive or null if the version is not a file:// URI or
+   * the path of a .tar.gz, .tgz or .zip archive.
+   */
+  static getLocalArchivePath(version: string): string | null {
+    if (!version) {
+      return null;
+    }
+    const trimmedVersion = version.trim();
+    if (/^file:\/\//i.test(trimmedVersion)) {
+      return fileURLToPath(trimmedVersion);
+    }
+    if (
+      /\.(tar\.gz|tgz|zip)$/i.test(trimmedVersion) &&
+      !validUrl.isWebUri(trimmedVersion)
+    ) {
+      return path.resolve(trimmedVersion);
+    }
+    return null;
+  }
+
+  /**
+   * Creates the directory into which archives are downloaded and extracted, and prunes the
+   * downloads which have not been used within the retention period.
+   *
+   * @return the full path to the download directory.
+   */
+  static prepareDownloadDir(): string {
+    const downloadDir = `${process.env.SYSTEM_DEFAULTWORKINGDIRECTORY}/.download`;
+    if (!fs.existsSync(downloadDir)) {
+      tl.debug('creating download directory');
+      tl.mkdirP(downloadDir);
+    }
+    InstallHandler.pruneDownloads(downloadDir);
+    return downloadDir;
+  }
+
+  /**
+   * Removes the downloads which have not been used for the number of days configured by the
+   * OpenShift.DownloadRetentionDays variable (7 by default, 0 disables pruning). Downloads locked
+   * by a concurrent job are kept.
+   *
+   * @param downloadDir the download directory.
+   */
+  static pruneDownloads(downloadDir: string): void {
+    const retention = tl.getVariable(DOWNLOAD_RETENTION_VARIABLE);
+    const retentionDays =
+      retention && retention.trim() !== ''
+        ? +retention
+        : DEFAULT_DOWNLOAD_RETENTION_DAYS;
+    if (Number.isNaN(retentionDays) || retentionDays <= 0) {
+      tl.debug(`pruning of ${downloadDir} is disabled`);
+      return;
+    }
+
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(downloadDir);
+    } catch (ex) {
+      tl.debug(`Unable to list ${downloadDir}. Err ${ex}`);
+      return;
+    }
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    entries
+      .filter(entry => !entry.endsWith(LOCK_EXTENSION))
+      .map(entry => path.join(downloadDir, entry))
+      .filter(entryPath => {
+        try {
+          return fs.statSync(entryPath).mtimeMs < cutoff;
+        } catch (ex) {
+          // removed by a concurrent job in the meantime
+          return false;
+        }
+      })
+      .forEach(entryPath => {
+        const release = tryAcquireLock(`${entryPath}${LOCK_EXTENSION}`);
+        if (!release) {
+          tl.debug(`${entryPath} is in use, not pruning it`);
+          return;
+        }
+        try {
+          tl.debug(`pruning ${entryPath}`);
+          tl.rmRF(entryPath);
+        } finally {
+          release();
+        }
+      });
+  }
+
+  /**
+   * Returns the name of the directory into which a release archive is downloaded and extracted.
+   * Each release gets a directory of its own so that different versions do not overwrite each other.
+   *
+   * @param url the release download URL or the path (or file:// URI) of a local archive.
+   * @param toolName the name of the tool.
+   * @param digest the SHA-256 digest of a local archive. Local archives are identified by their
+   * content, as a new archive may replace an older one at the same path.
+   * @return the directory name, e.g. oc-4.6.12-1a2b3c4d.
+   */
+  static getVersionDirName(
+    url: string,
+    toolName: string,
+    digest?: string
+  ): string {
+    const version = InstallHandler.getUrlVersion(url);
+    const hash = (
+      digest ||
+      crypto
+        .createHash('sha256')
+        .update(url)
+        .digest('hex')
+    ).substr(0, 8);
+    return version ? `${toolName}-${version}-${hash}` : `${toolName}-${hash}`;
+  }
+
+  /**
+   * Extracts the version from a release download URL.
+   *
+   * @param url the release download URL, e.g. https://mirror.openshift.com/pub/openshift-v4/clients/oc/4.6.12/linux/oc.tar.gz.
+   * @return the version or undefined if the URL does not contain one, e.g. for latest releases.
+   */
+  static getUrlVersion(url: string): string | undefined {
+    const version = /\/v?(\d+\.\d+[\w.+-]*)\//.exec(url);
+    return version ? version[1] : undefined;
+  }
+
+  /**
+   * Downloads and extract the oc release archive. Archives on the agent are extracted
+   * without any network access. Every release is extracted into a directory of its own
+   * while holding a lock, so that concurrent jobs sharing the download directory wait for
+   * each other and reuse the extracted binary.
    *
-   * @param url the oc release download URL.
+   * @param url the oc release download URL or the path (or file:// URI) of a local archive.
    * @param downloadDir the directory into which to extract the archive.
    * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
    * @param proxy proxy to use to download oc
+   * @param checksum expected SHA-256 digest of the archive.
+   * @param toolName the name of the binary to extract. Defaults to oc.
    * It is the responsibility of the caller to ensure that the directory exist.
    */
   static async downloadAndExtract(
     url: string,
     downloadDir: string,
     osType: string,
-    proxy: string
+    proxy: string,
+    checksum?: string,
+    toolName: string = OC_TOOL_NAME
   ): Promise<string | null> {
     if (!url) {
       return null;
@@ -227,56 +759,381 @@ export class InstallHandler {
       return Promise.reject(new Error(`${downloadDir} does not exist.`));
     }
 
-    const parts = url.split('/');
-    const archive = parts[parts.length - 1];
-    const archivePath = path.join(downloadDir, archive);
+    const localArchive = InstallHandler.getLocalArchivePath(url);
+    const digest =
+      localArchive && tl.exist(localArchive)
+        ? await sha256(localArchive)
+        : undefined;
+    const versionDir = path.join(
+      downloadDir,
+      InstallHandler.getVersionDirName(url, toolName, digest)
+    );
+    return withFileLock(`${versionDir}${LOCK_EXTENSION}`, () =>
+      InstallHandler.extractRelease(
+        url,
+        versionDir,
+        osType,
+        proxy,
+        checksum,
+        toolName
+      )
+    );
+  }
+
+  /**
+   * Downloads and extracts a release archive into its version directory unless a previous run
+   * already did. The binary is moved into place once fully extracted, together with the digest
+   * of the archive if it has been verified. A binary extracted by a previous run is only reused
+   * if its archive passed the checksum verification requested now, and releases without a
+   * version in their URL (e.g. latest) are downloaded again. Must be called while holding the
+   * lock of the version directory.
+   *
+   * @param url the release download URL or the path (or file:// URI) of a local archive.
+   * @param versionDir the version directory.
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param proxy proxy to use to download the archive
+   * @param checksum expected SHA-256 digest of the archive.
+   * @param toolName the name of the binary to extract.
+   * @return the full path to the binary or null if the archive does not contain it.
+   */
+  static async extractRelease(
+    url: string,
+    versionDir: string,
+    osType: string,
+    proxy: string,
+    checksum: string | undefined,
+    toolName: string
+  ): Promise<string | null> {
+    let binaryName: string;
+    switch (osType) {
+      case 'Windows_NT': {
+        binaryName = `${toolName}.exe`;
+        break;
+      }
+      default: {
+        binaryName = toolName;
+      }
+    }
+
+    const binary = path.join(versionDir, binaryName);
+    const localArchive = InstallHandler.getLocalArchivePath(url);
+    let archive: string;
+    let archivePath: string;
+    if (localArchive) {
+      archive = path.basename(localArchive);
+      archivePath = localArchive;
+    } else {
+      const parts = url.split('/');
+      archive = parts[parts.length - 1];
+      archivePath = path.join(versionDir, archive);
+    }
+
+    if (tl.exist(binary)) {
+      if (!localArchive && !InstallHandler.getUrlVersion(url)) {
+        tl.debug(`${url} may have changed since a previous run, downloading it again`);
+        tl.rmRF(binary);
+        tl.rmRF(archivePath);
+      } else if (!InstallHandler.hasVerifiedChecksum(binary, checksum)) {
+        tl.debug(`the archive of ${binary} has not been verified, verifying it again`);
+        tl.rmRF(binary);
+      } else {
+        tl.debug(`using ${binary} extracted by a previous run`);
+        const now = new Date();
+        fs.utimesSync(versionDir, now, now);
+        return binary;
+      }
+    }
+
+    tl.mkdirP(versionDir);
+    let verified: string | undefined;
+    if (localArchive) {
+      if (!tl.exist(localArchive)) {
+        return Promise.reject(new Error(`${localArchive} does not exist.`));
+      }
+      // there is no checksum file next to a local archive, only an explicit digest is verified
+      if (checksum) {
+        verified = await InstallHandler.verifyChecksum(
+          archivePath,
+          url,
+          checksum
+        );
+      } else if (InstallHandler.isChecksumRequired()) {
+        return Promise.reject(
+          new Error(
+            `No SHA-256 checksum specified for ${localArchive}. A checksum is required to install a local archive.`
+          )
+        );
+      }
+    } else {
+      if (!tl.exist(archivePath)) {
+        await downloadFile(url, archivePath, {
+          proxy,
+          headers: getMirrorHeaders(url)
+        });
+      }
 
-    if (!tl.exist(archivePath)) {
-      const curl: ToolRunner = tl.tool('curl');
-      curl
-        .arg('-s')
-        .argIf(!!proxy, ['-x', proxy])
-        .arg('-L')
-        .arg('-o')
-        .arg(archivePath)
-        .arg(url);
-      await curl.exec();
+      verified = await InstallHandler.verifyChecksum(
+        archivePath,
+        url,
+        checksum,
+        proxy
+      );
     }
 
     let archiveType = path.extname(archive);
-    let expandDir = archive.replace(archiveType, '');
+    const expandDir = archive.replace(archiveType, '');
     // handle tar.gz explicitly
     if (path.extname(expandDir) === '.tar') {
       archiveType = '.tar.gz';
-      expandDir = expandDir.replace('.tar', '');
     }
 
-    tl.debug(`expanding ${archivePath} into ${downloadDir}`);
+    const extractDir = path.join(versionDir, `.extract-${process.pid}`);
+    tl.rmRF(extractDir);
+    tl.mkdirP(extractDir);
+    tl.debug(`expanding ${archivePath} into ${extractDir}`);
 
-    await unzipArchive(archiveType, archivePath, downloadDir);
+    try {
+      await unzipArchive(archiveType, archivePath, extractDir);
 
-    let ocBinary: string;
-    switch (osType) {
-      case 'Windows_NT': {
-        ocBinary = 'oc.exe';
-        break;
+      let extractedBinary = path.join(extractDir, binaryName);
+      if (!tl.exist(extractedBinary)) {
+        extractedBinary = InstallHandler.findBinary(
+          extractDir,
+          toolName,
+          osType
+        );
+        if (!extractedBinary) {
+          return null;
+        }
       }
-      default: {
-        ocBinary = 'oc';
+
+      fs.chmodSync(extractedBinary, '0755');
+      if (verified) {
+        fs.writeFileSync(`${binary}${CHECKSUM_EXTENSION}`, verified);
       }
+      fs.renameSync(extractedBinary, binary);
+    } finally {
+      tl.rmRF(extractDir);
     }
 
-    ocBinary = path.join(downloadDir, ocBinary);
-    if (!tl.exist(ocBinary)) {
-      return null;
+    return binary;
+  }
+
+  /**
+   * Looks for a binary which has not been extracted to the root of the extraction directory.
+   * Some bundles name the binary after the platform (e.g. helm-linux-amd64 or helm-windows-amd64.exe)
+   * while others wrap it in a directory (e.g. openshift-origin-client-tools-v3.11.0-0cbc58b-linux-64bit/oc).
+   *
+   * @param dir the directory the archive has been extracted into.
+   * @param toolName the name of the tool.
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @return the full path to the binary or undefined if none is found.
+   */
+  static findBinary(
+    dir: string,
+    toolName: string,
+    osType: string
+  ): string | undefined {
+    let files: string[];
+    try {
+      files = fs.readdirSync(dir);
+    } catch (ex) {
+      tl.debug(`Unable to list ${dir}. Err ${ex}`);
+      return undefined;
     }
 
-    fs.chmodSync(ocBinary, '0755');
-    return ocBinary;
+    const isWindows = osType === 'Windows_NT';
+    const platformBinary = files.find(
+      file =>
+        file.startsWith(`${toolName}-`) &&
+        !/\.(tar\.gz|tgz|zip|part)$/.test(file) &&
+        isWindows === file.endsWith('.exe')
+    );
+    if (platformBinary) {
+      return path.join(dir, platformBinary);
+    }
+
+    const binaryName = isWindows ? `${toolName}.exe` : toolName;
+    const wrappedBinary = files
+      .map(file => path.join(dir, file, binaryName))
+      .find(file => fs.existsSync(file) && fs.statSync(file).isFile());
+    return wrappedBinary;
+  }
+
+  /**
+   * @return true if archives without a known SHA-256 digest must be rejected. Set by the
+   * requireChecksum task input or, for all tasks running on an agent, the OpenShift.RequireChecksum variable.
+   */
+  static isChecksumRequired(): boolean {
+    const variable = tl.getVariable(REQUIRE_CHECKSUM_VARIABLE);
+    return (
+      tl.getBoolInput(REQUIRE_CHECKSUM) ||
+      (!!variable && variable.trim().toLowerCase() === 'true')
+    );
+  }
+
+  /**
+   * Checks whether the archive of a binary has been verified as requested. The digest of
+   * a verified archive is stored next to the binary.
+   *
+   * @param binary the full path to the binary.
+   * @param checksum expected SHA-256 digest of the archive.
+   * @return true if the archive matched the expected digest or, if none is given, a checksum
+   * is not required or the archive has been verified against the digest published by the mirror.
+   */
+  static hasVerifiedChecksum(binary: string, checksum?: string): boolean {
+    if (!checksum && !InstallHandler.isChecksumRequired()) {
+      return true;
+    }
+    let verified: string;
+    try {
+      verified = fs
+        .readFileSync(`${binary}${CHECKSUM_EXTENSION}`, 'utf-8')
+        .trim();
+    } catch (ex) {
+      tl.debug(`no checksum recorded for ${binary}`);
+      return false;
+    }
+    return checksum
+      ? verified === checksum.trim().toLowerCase()
+      : verified !== '';
+  }
+
+  /**
+   * Verifies the SHA-256 digest of a downloaded archive. If the digest does not match,
+   * or cannot be found while a checksum is required, the archive is deleted so that it
+   * is not reused by a later run.
+   *
+   * @param archivePath the full path to the downloaded archive.
+   * @param url the URL the archive has been downloaded from.
+   * @param checksum expected SHA-256 digest. If not specified it is looked up on the mirror.
+   * @param proxy proxy to use to download the checksum file
+   * @return the verified digest or undefined if no digest has been found.
+   */
+  static async verifyChecksum(
+    archivePath: string,
+    url: string,
+    checksum?: string,
+    proxy?: string
+  ): Promise<string | undefined> {
+    const expected = checksum
+      ? checksum.trim().toLowerCase()
+      : await InstallHandler.getMirrorChecksum(url, proxy);
+    if (!expected) {
+      if (InstallHandler.isChecksumRequired()) {
+        tl.rmRF(archivePath);
+        return Promise.reject(
+          new Error(
+            `Unable to find a SHA-256 checksum for ${url}. A checksum is required, the downloaded archive has been deleted.`
+          )
+        );
+      }
+      tl.warning(
+        `Unable to find a SHA-256 checksum for ${url}. Integrity of the archive has not been verified.`
+      );
+      return undefined;
+    }
+
+    const actual = await sha256(archivePath);
+    tl.debug(`SHA-256 of ${archivePath}: ${actual}, expected: ${expected}`);
+    if (actual !== expected) {
+      tl.rmRF(archivePath);
+      return Promise.reject(
+        new Error(
+          `SHA-256 checksum mismatch for ${url}: expected ${expected} but got ${actual}. The downloaded archive has been deleted.`
+        )
+      );
+    }
+    return actual;
+  }
+
+  /**
+   * Looks up the SHA-256 digest of an archive in the sha256sum.txt published by the mirror.
+   * The checksum file is searched in the directory of the archive and in its parent directory
+   * (e.g. <version>/sha256sum.txt listing linux/oc.tar.gz).
+   *
+   * @param url the archive download URL.
+   * @param proxy proxy to use to download the checksum file
+   * @return the expected digest or undefined if it cannot be determined.
+   */
+  static async getMirrorChecksum(
+    url: string,
+    proxy?: string
+  ): Promise<string | undefined> {
+    const parts = url.split('/');
+    const candidates: { sumsUrl: string; entry: string }[] = [];
+    for (let depth = 1; depth <= 2 && parts.length - depth > 3; depth++) {
+      const baseUrl = parts.slice(0, parts.length - depth).join('/');
+      candidates.push({
+        sumsUrl: `${baseUrl}/${SHA256SUM_FILE}`,
+        entry: parts.slice(parts.length - depth).join('/')
+      });
+    }
+
+    const sums = await Promise.all(
+      candidates.map(candidate =>
+        InstallHandler.fetchText(candidate.sumsUrl, proxy)
+      )
+    );
+    for (let i = 0; i < candidates.length; i++) {
+      const digest = sums[i]
+        ? InstallHandler.parseChecksums(sums[i], candidates[i].entry)
+        : undefined;
+      if (digest) {
+        return digest;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Retrieves the body of a text resource.
+   *
+   * @param url the URL of the resource.
+   * @param proxy proxy to use to fetch the resource
+   * @return the body or undefined if the resource cannot be retrieved.
+   */
+  static async fetchText(
+    url: string,
+    proxy?: string
+  ): Promise<string | undefined> {
+    try {
+      tl.debug(`fetching ${url}`);
+      const response = await fetch(url, {
+        headers: getMirrorHeaders(url),
+        agent: getProxyAgent(url, proxy)
+      });
+      if (!response.ok) {
+        tl.debug(`Unable to fetch ${url}. Status ${response.status}`);
+        return undefined;
+      }
+      return await response.text();
+    } catch (ex) {
+      tl.debug(`Unable to fetch ${url}. Err ${ex}`);
+    }
+    return undefined;
+  }
+
+  /**
+   * Extracts the digest of a file from the content of a sha256sum.txt file.
+   *
+   * @param sums content of the checksum file in the `<digest>  <file>` format.
+   * @param file the file name, relative to the checksum file.
+   * @return the digest or undefined if the file is not listed.
+   */
+  static parseChecksums(sums: string, file: string): string | undefined {
+    for (const line of sums.split(/\r?\n/)) {
+      const match = /^([a-fA-F0-9]{64})\s+\*?(.+)$/.exec(line.trim());
+      if (match && match[2].trim().replace(/^\.\//, '') === file) {
+        return match[1].toLowerCase();
+      }
+    }
+    return undefined;
   }
 
   /**
-   * Adds oc to the PATH environment variable.
+   * Adds oc to the PATH environment variable. Also used for the other installed tools.
    *
    * @param ocPath the full path to the oc binary. Must be a non null.
    * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
@@ -299,6 +1156,7 @@ export class InstallHandler {
    * Retrieve the path of the oc CLI installed in the machine.
    *
    * @param version the version of `oc` to be used. If not specified any `oc` version, if found, will be used.
+   * If a semver range is specified any `oc` version satisfying the range is used.
    * @return the full path to the installed executable or undefined if the oc CLI version requested is not found.
    */
   static getLocalOcPath(version?: string): string | undefined {
@@ -313,10 +1171,15 @@ export class InstallHandler {
     if (version && ocPath) {
       const localOcVersion = InstallHandler.getOcVersion(ocPath);
       tl.debug(`localOcVersion ${localOcVersion} vs ${version}`);
-      if (
-        !localOcVersion ||
-        localOcVersion.toLowerCase() !== version.toLowerCase()
-      ) {
+      if (!localOcVersion) {
+        return undefined;
+      }
+      if (VersionHandler.isVersionRange(version)) {
+        const localSemver = VersionHandler.toSemver(localOcVersion);
+        if (!localSemver || !semver.satisfies(localSemver, version.trim())) {
+          return undefined;
+        }
+      } else if (localOcVersion.toLowerCase() !== version.toLowerCase()) {
         return undefined;
       }
     }
@@ -352,11 +1215,131 @@ export class InstallHandler {
     return undefined;
   }
 
+  /**
+   * Determines the version under which oc is stored in the agent tool cache.
+   *
+   * @param version the version of `oc` requested by the user.
+   * @return the cleaned semver version or undefined if the version is not explicit (e.g. latest or an URL).
+   */
+  static getCacheVersion(version: string): string | undefined {
+    if (!version || validUrl.isWebUri(version)) {
+      return undefined;
+    }
+    if (!toolLib.isExplicitVersion(version)) {
+      return undefined;
+    }
+    return toolLib.cleanVersion(version);
+  }
+
+  /**
+   * Retrieves the binary of the specified tool version from the agent tool cache.
+   *
+   * @param toolName the name of the tool (e.g. oc or helm), which is also the name of its binary.
+   * @param version the explicit version of the tool.
+   * @param osType the OS type. One of 'Linux', 'Darwin' or 'Windows_NT'.
+   * @param arch the architecture of the tool. Defaults to the architecture of the agent.
+   * @param checksum expected SHA-256 digest of the archive the tool has been extracted from.
+   * @return the full path to the cached executable or undefined if it is not cached or its
+   * archive has not been verified as requested.
+   */
+  static findCachedTool(
+    toolName: string,
+    version: string,
+    osType: string,
+    arch?: string,
+    checksum?: string
+  ): string | undefined {
+    if (!tl.getVariable('Agent.ToolsDirectory')) {
+      tl.debug('Agent.ToolsDirectory is not set, tool cache is not used');
+      return undefined;
+    }
+
+    const cacheDir = toolLib.findLocalTool(toolName, version, arch);
+    if (!cacheDir) {
+      tl.debug(`${toolName} ${version} not found in tool cache`);
+      return undefined;
+    }
+
+    const binary = path.join(
+      cacheDir,
+      osType === 'Windows_NT' ? `${toolName}.exe` : toolName
+    );
+    if (!tl.exist(binary)) {
+      return undefined;
+    }
+    if (!InstallHandler.hasVerifiedChecksum(binary, checksum)) {
+      tl.debug(`the archive of the cached ${toolName} ${version} has not been verified`);
+      return undefined;
+    }
+
+    tl.debug(`using cached ${toolName} ${binary}`);
+    return binary;
+  }
+
+  /**
+   * Stores the binary of a tool in the agent tool cache, together with the digest of its
+   * archive if it has been verified.
+   *
+   * @param binary the full path to the extracted binary.
+   * @param toolName the name of the tool (e.g. oc or helm).
+   * @param version the explicit version of the tool.
+   * @param arch the architecture of the tool. Defaults to the architecture of the agent.
+   * @return the full path to the cached executable. If the tool cache is not available
+   * the passed binary is returned.
+   */
+  static async cacheTool(
+    binary: string,
+    toolName: string,
+    version: string,
+    arch?: string
+  ): Promise<string> {
+    if (!tl.getVariable('Agent.ToolsDirectory')) {
+      tl.debug('Agent.ToolsDirectory is not set, tool cache is not used');
+      return binary;
+    }
+
+    const binaryName = path.basename(binary);
+    const cacheDir = await toolLib.cacheFile(
+      binary,
+      binaryName,
+      toolName,
+      version,
+      arch
+    );
+    const cachedBinary = path.join(cacheDir, binaryName);
+    fs.chmodSync(cachedBinary, '0755');
+    const checksumFile = `${binary}${CHECKSUM_EXTENSION}`;
+    if (tl.exist(checksumFile)) {
+      fs.copyFileSync(checksumFile, `${cachedBinary}${CHECKSUM_EXTENSION}`);
+    }
+    return cachedBinary;
+  }
+
+  /**
+   * Reads oc-utils.json. If a mirror is configured, the base URLs point to the mirror
+   * instead of mirror.openshift.com.
+   */
   static getOcUtils(): { [key: string]: string } {
     const rawData = fs.readFileSync(
       path.resolve(__dirname || '', 'oc-utils.json'),
       'utf-8'
     );
-    return JSON.parse(rawData.toString());
+    const ocUtils = JSON.parse(rawData.toString());
+    const mirror = getMirrorConfiguration();
+    if (mirror) {
+      tl.debug(`using mirror ${mirror.url}`);
+      for (const key of [
+        'openshiftV3BaseUrl',
+        'openshiftV4BaseUrl',
+        'openshiftV4OcpBaseUrl'
+      ]) {
+        ocUtils[key] = ocUtils[key].replace(
+          ocUtils.openshiftMirrorUrl,
+          mirror.url
+        );
+      }
+      ocUtils.openshiftMirrorUrl = mirror.url;
+    }
+    return ocUtils;
   }
 }
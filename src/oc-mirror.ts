@@ -0,0 +1,84 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import {
+  MIRROR_URL,
+  MIRROR_USERNAME,
+  MIRROR_PASSWORD,
+  MIRROR_TOKEN,
+  MIRROR_URL_VARIABLE,
+  MIRROR_USERNAME_VARIABLE,
+  MIRROR_PASSWORD_VARIABLE,
+  MIRROR_TOKEN_VARIABLE
+} from './constants';
+
+import tl = require('azure-pipelines-task-lib/task');
+
+export interface MirrorConfiguration {
+  /** base URL of the mirror replacing https://mirror.openshift.com */
+  url: string;
+
+  /** username for basic authentication */
+  username?: string;
+
+  /** password for basic authentication */
+  password?: string;
+
+  /** bearer token */
+  token?: string;
+}
+
+function getSetting(input: string, variable: string): string | undefined {
+  return tl.getInput(input) || tl.getVariable(variable) || undefined;
+}
+
+/**
+ * @return the mirror configured by the task inputs or, if not set, by the agent variables.
+ * Undefined if the public OpenShift mirror has to be used.
+ */
+export function getMirrorConfiguration(): MirrorConfiguration | undefined {
+  const url = getSetting(MIRROR_URL, MIRROR_URL_VARIABLE);
+  if (!url) {
+    return undefined;
+  }
+
+  const mirror: MirrorConfiguration = {
+    url: url.trim().replace(/\/+$/, ''),
+    username: getSetting(MIRROR_USERNAME, MIRROR_USERNAME_VARIABLE),
+    password: getSetting(MIRROR_PASSWORD, MIRROR_PASSWORD_VARIABLE),
+    token: getSetting(MIRROR_TOKEN, MIRROR_TOKEN_VARIABLE)
+  };
+  if (mirror.password) {
+    tl.setSecret(mirror.password);
+  }
+  if (mirror.token) {
+    tl.setSecret(mirror.token);
+  }
+  return mirror;
+}
+
+/**
+ * Returns the headers authenticating a request against the configured mirror. Credentials
+ * are only sent to URLs of the mirror.
+ *
+ * @param url the request URL.
+ * @return the authorization header or an empty object.
+ */
+export function getMirrorHeaders(url: string): { [key: string]: string } {
+  const mirror = getMirrorConfiguration();
+  if (!mirror || !url || !`${url}/`.startsWith(`${mirror.url}/`)) {
+    return {};
+  }
+
+  if (mirror.token) {
+    return { Authorization: `Bearer ${mirror.token}` };
+  }
+  if (mirror.username) {
+    const credentials = Buffer.from(
+      `${mirror.username}:${mirror.password || ''}`
+    ).toString('base64');
+    return { Authorization: `Basic ${credentials}` };
+  }
+  return {};
+}
@@ -0,0 +1,116 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import { OUTPUT_VARIABLE } from './constants';
+import { JsonPath, formatJsonPathResult } from './utils/json-path';
+
+import tl = require('azure-pipelines-task-lib/task');
+
+export interface OutputVariable {
+  /** name of the output variable */
+  name: string;
+
+  /** the expression selecting the value from the JSON output, undefined for the whole output */
+  expression?: JsonPath;
+
+  /** whether the value is masked in the logs */
+  secret: boolean;
+}
+
+const VARIABLE_NAME = /^[A-Za-z_][\w-]*$/;
+const DECLARATION = /^(secret\s+)?(?:([A-Za-z_][\w-]*)\s*=\s*)?(.*)$/;
+
+/**
+ * Parses the output variable declarations, one per line in the form
+ * `[secret] name`, `[secret] name=expression` or `[secret] expression`. Declarations without
+ * name set the `output` variable, declarations without expression capture the whole output.
+ *
+ * @param value the declarations.
+ * @return the output variables.
+ */
+export function parseOutputVariables(
+  value: string | undefined
+): OutputVariable[] {
+  return (value || '')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line)
+    .map(line => {
+      const [, secret, name, expression] = DECLARATION.exec(line);
+      if (!name && VARIABLE_NAME.test(expression)) {
+        return { name: expression, secret: !!secret };
+      }
+      if (!expression) {
+        throw new Error(`Missing expression for output variable '${name}'.`);
+      }
+      return {
+        name: name || OUTPUT_VARIABLE,
+        expression: new JsonPath(expression),
+        secret: !!secret
+      };
+    });
+}
+
+/**
+ * Determines the value of an output variable from the output of a command.
+ *
+ * @param stdout the output of the command.
+ * @param variable the output variable.
+ * @return the value.
+ */
+export function getOutputValue(
+  stdout: string,
+  variable: OutputVariable
+): string {
+  if (!variable.expression) {
+    return stdout.trim();
+  }
+  let document: any;
+  try {
+    document = JSON.parse(stdout);
+  } catch (ex) {
+    throw new Error(
+      `Unable to evaluate output variable '${
+        variable.name
+      }', the output is no JSON. Add -o json to the command.`
+    );
+  }
+  const values = variable.expression.evaluate(document);
+  if (values.length === 0) {
+    throw new Error(
+      `The expression of output variable '${
+        variable.name
+      }' does not match the output.`
+    );
+  }
+  return formatJsonPathResult(values);
+}
+
+/**
+ * Sets output variables from the output of a command. The variables can be referenced by
+ * later steps and, through the step name, by later jobs.
+ *
+ * @param stdout the output of the command.
+ * @param variables the output variables.
+ */
+export function setOutputVariables(
+  stdout: string,
+  variables: OutputVariable[]
+): void {
+  variables.forEach(variable => {
+    const value = getOutputValue(stdout, variable);
+    if (variable.secret) {
+      tl.setSecret(value);
+    }
+    tl.command(
+      'task.setvariable',
+      {
+        variable: variable.name,
+        isOutput: 'true',
+        issecret: `${variable.secret}`
+      },
+      value
+    );
+  });
+}
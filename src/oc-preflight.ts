@@ -0,0 +1,157 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as fs from 'fs';
+import { IExecSyncResult } from 'azure-pipelines-task-lib/toolrunner';
+import { RunnerHandler } from './oc-exec';
+
+import tl = require('azure-pipelines-task-lib/task');
+import yaml = require('js-yaml');
+
+const UNKNOWN_AUTHORITY = /unknown authority|unable to verify the first certificate|unable to get local issuer certificate|self[- ]signed certificate|certificate is not trusted/i;
+const CERTIFICATE_EXPIRED = /certificate has expired|certificate is not yet valid/i;
+const HOST_MISMATCH = /certificate is valid for|does not match certificate's altnames/i;
+const UNAUTHORIZED = /unauthorized|\b401\b|token (is )?expired|invalid bearer token/i;
+const UNREACHABLE = /ECONNREFUSED|ENOTFOUND|EAI_AGAIN|ETIMEDOUT|ECONNRESET|connection refused|no such host|i\/o timeout|network timeout|unable to connect to the server|network is unreachable|context deadline exceeded/i;
+const NOT_OPENSHIFT = /could not find the requested resource/i;
+
+/**
+ * Turns the error reported when connecting to a cluster into a message explaining the cause.
+ *
+ * @param message the error message of oc or of the http request.
+ * @param server the URL of the cluster.
+ * @return the classified error message.
+ */
+export function classifyConnectionError(
+  message: string,
+  server: string
+): string {
+  const details = `Details: ${message.trim()}`;
+  if (UNKNOWN_AUTHORITY.test(message)) {
+    return `The certificate of ${server} is signed by an unknown authority. Configure the certificate authority of the cluster on the service connection or the task. ${details}`;
+  }
+  if (CERTIFICATE_EXPIRED.test(message)) {
+    return `The certificate of ${server} has expired or is not yet valid. ${details}`;
+  }
+  if (HOST_MISMATCH.test(message)) {
+    return `The certificate of ${server} is not valid for its host name. Check the server URL of the service connection. ${details}`;
+  }
+  if (UNAUTHORIZED.test(message)) {
+    return `The credentials were rejected by ${server}. The token has expired or was revoked, renew the credentials of the service connection. ${details}`;
+  }
+  if (UNREACHABLE.test(message)) {
+    return `The server ${server} is unreachable. Check the server URL and that the agent can reach the cluster. ${details}`;
+  }
+  return `Unable to connect to ${server}. ${details}`;
+}
+
+/**
+ * Determines the expiry of a JWT bearer token, such as service account or ID tokens.
+ *
+ * @param token the bearer token.
+ * @return the expiry or undefined if the token is no JWT or does not expire.
+ */
+export function getTokenExpiry(token: string): Date | undefined {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return undefined;
+  }
+  try {
+    const payload = JSON.parse(
+      Buffer.from(
+        parts[1].replace(/-/g, '+').replace(/_/g, '/'),
+        'base64'
+      ).toString('utf-8')
+    );
+    return typeof payload.exp === 'number'
+      ? new Date(payload.exp * 1000)
+      : undefined;
+  } catch (ex) {
+    tl.debug(`Unable to decode token. Err ${ex}`);
+    return undefined;
+  }
+}
+
+/**
+ * Determines the bearer token of the current context of a kubeconfig.
+ *
+ * @param kubeConfigPath the fully qualified path of the kubeconfig.
+ * @return the token or undefined if the current user does not authenticate with a token.
+ */
+export function getKubeConfigToken(kubeConfigPath: string): string | undefined {
+  try {
+    const kubeConfig = yaml.safeLoad(
+      fs.readFileSync(kubeConfigPath, 'utf-8')
+    ) as any;
+    const context = (kubeConfig.contexts || []).find(
+      entry => entry.name === kubeConfig['current-context']
+    );
+    const user = context
+      ? (kubeConfig.users || []).find(
+          entry => entry.name === context.context.user
+        )
+      : undefined;
+    return user && user.user ? user.user.token : undefined;
+  } catch (ex) {
+    tl.debug(`Unable to read token from ${kubeConfigPath}. Err ${ex}`);
+    return undefined;
+  }
+}
+
+function execOutput(result: IExecSyncResult | undefined): string {
+  if (!result) {
+    return '';
+  }
+  return result.code === 0
+    ? result.stdout.trim()
+    : result.stderr || (result.error ? result.error.message : '');
+}
+
+/**
+ * Verifies that the kubeconfig referenced by the KUBECONFIG variable allows to connect to the
+ * cluster, by checking the expiry of the token and running `oc whoami`. The authenticated user,
+ * the server and the token expiry are logged.
+ *
+ * @param ocPath absolute path to the oc binary.
+ */
+export async function verifyConnection(ocPath: string): Promise<void> {
+  const serverResult = RunnerHandler.execOcSync(ocPath, 'whoami --show-server');
+  const server =
+    serverResult && serverResult.code === 0
+      ? execOutput(serverResult)
+      : 'the cluster';
+
+  const kubeConfigPath = process.env.KUBECONFIG;
+  const token = kubeConfigPath ? getKubeConfigToken(kubeConfigPath) : undefined;
+  const expiry = token ? getTokenExpiry(token) : undefined;
+  if (expiry && expiry.getTime() <= Date.now()) {
+    return Promise.reject(
+      new Error(
+        `The token for ${server} expired at ${expiry.toISOString()}. Renew the credentials of the service connection.`
+      )
+    );
+  }
+
+  const whoamiResult = RunnerHandler.execOcSync(ocPath, 'whoami');
+  let user: string;
+  if (whoamiResult && whoamiResult.code === 0) {
+    user = execOutput(whoamiResult);
+  } else {
+    const message = execOutput(whoamiResult) || 'oc whoami failed';
+    if (!NOT_OPENSHIFT.test(message)) {
+      return Promise.reject(
+        new Error(classifyConnectionError(message, server))
+      );
+    }
+    // plain Kubernetes clusters do not serve the user API
+    tl.debug(`unable to determine user: ${message}`);
+    user = 'unknown user';
+  }
+
+  console.log(
+    expiry
+      ? `Authenticated as ${user} on ${server}, token expires at ${expiry.toISOString()}`
+      : `Authenticated as ${user} on ${server}`
+  );
+}
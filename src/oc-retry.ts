@@ -0,0 +1,153 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import { Pipeline } from './utils/shell-parser';
+import { parseWholeNumber } from './utils/utils';
+
+export type Backoff = 'exponential' | 'linear' | 'fixed';
+
+export interface RetryOptions {
+  /** total number of attempts, 1 disables retries */
+  attempts: number;
+
+  /** delay in milliseconds before the first retry */
+  delay: number;
+
+  /** how the delay grows from one retry to the next */
+  backoff: Backoff;
+
+  /** patterns of the stderr output of failures which are retried */
+  patterns: RegExp[];
+
+  /** whether commands with a non idempotent sub-command such as create are retried */
+  retryNonIdempotent: boolean;
+}
+
+/** stderr output of transient API server failures */
+export const DEFAULT_RETRY_PATTERNS: RegExp[] = [
+  /connection refused/i,
+  /connection reset by peer/i,
+  /etcdserver: (leader changed|request timed out)/i,
+  /the server is currently unable to handle the request/i,
+  /the server was unable to return a response in the time allotted/i,
+  /status code 429|\(429\)|too ?many ?requests/i,
+  /service unavailable/i,
+  /TLS handshake timeout/i,
+  /i\/o timeout/i,
+  /http2: client connection lost/i,
+  /unexpected EOF/i
+];
+
+/** oc sub-commands which must not run twice */
+const NON_IDEMPOTENT_COMMANDS = [
+  'create',
+  'new-app',
+  'new-build',
+  'new-project',
+  'start-build',
+  'expose',
+  'run',
+  'exec',
+  'rsh',
+  'rollout latest',
+  'rollout restart',
+  'rollout retry'
+];
+
+const BACKOFFS: Backoff[] = ['exponential', 'linear', 'fixed'];
+
+/**
+ * Creates the retry options from the task inputs.
+ *
+ * @param attempts the total number of attempts, 1 if empty.
+ * @param delay the delay in seconds before the first retry, 5 if empty.
+ * @param backoff exponential, linear or fixed, exponential if empty.
+ * @param patterns custom patterns of retryable failures, added to the default patterns.
+ * @param retryNonIdempotent whether non idempotent commands are retried.
+ * @return the retry options.
+ */
+export function createRetryOptions(
+  attempts: string | undefined,
+  delay: string | undefined,
+  backoff: string | undefined,
+  patterns: RegExp[],
+  retryNonIdempotent: boolean
+): RetryOptions {
+  const backoffValue = (backoff || 'exponential').trim().toLowerCase();
+  if (!BACKOFFS.includes(backoffValue as Backoff)) {
+    throw new Error(
+      `Unknown backoff '${backoff}'. Use exponential, linear or fixed.`
+    );
+  }
+  return {
+    attempts: Math.max(parseWholeNumber(attempts, 1, 'number of attempts'), 1),
+    delay: parseWholeNumber(delay, 5, 'retry delay') * 1000,
+    backoff: backoffValue as Backoff,
+    patterns: [...DEFAULT_RETRY_PATTERNS, ...patterns],
+    retryNonIdempotent
+  };
+}
+
+/**
+ * Determines the delay before a retry.
+ *
+ * @param options the retry options.
+ * @param retry the number of the retry, starting at 1.
+ * @return the delay in milliseconds.
+ */
+export function getRetryDelay(options: RetryOptions, retry: number): number {
+  switch (options.backoff) {
+    case 'linear':
+      return options.delay * retry;
+    case 'fixed':
+      return options.delay;
+    default:
+      return options.delay * 2 ** (retry - 1);
+  }
+}
+
+/**
+ * Finds the line of the stderr output which makes a failure retryable.
+ *
+ * @param stderr the stderr output of the failed command.
+ * @param options the retry options.
+ * @return the matching line or undefined if the failure is not retryable.
+ */
+export function findRetryableError(
+  stderr: string,
+  options: RetryOptions
+): string | undefined {
+  return stderr
+    .split(/\r?\n/)
+    .find(line => options.patterns.some(pattern => pattern.test(line)));
+}
+
+/**
+ * Determines the first non idempotent oc sub-command of a pipeline, e.g. create. As the values
+ * of global flags cannot be told apart from the sub-command, the first two positional arguments
+ * are checked, erring on the side of not retrying.
+ *
+ * @param pipeline the pipeline.
+ * @return the sub-command or undefined if all oc commands of the pipeline can be repeated.
+ */
+export function getNonIdempotentCommand(
+  pipeline: Pipeline
+): string | undefined {
+  return pipeline.commands
+    .filter(command => command.args[0] === 'oc' || command.args[0] === 'oc.exe')
+    .map(command => {
+      const positional = command.args
+        .slice(1)
+        .filter(arg => !arg.startsWith('-'))
+        .slice(0, 3);
+      return NON_IDEMPOTENT_COMMANDS.find(nonIdempotent =>
+        [0, 1].some(
+          i =>
+            nonIdempotent === positional[i] ||
+            nonIdempotent === `${positional[i]} ${positional[i + 1]}`
+        )
+      );
+    })
+    .find(nonIdempotent => nonIdempotent !== undefined);
+}
@@ -0,0 +1,290 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import { RunnerHandler } from './oc-exec';
+import { RetryOptions } from './oc-retry';
+import { TimeoutOptions } from './oc-timeout';
+import { parseCommandLine, tokenize } from './utils/shell-parser';
+
+import tl = require('azure-pipelines-task-lib/task');
+
+export type FailurePolicy = 'stop' | 'continue' | 'ignore';
+
+export interface ScriptCommand {
+  /** one based line number of the command in the script */
+  line: number;
+
+  /** the command line without trailing comment */
+  command: string;
+
+  /** what to do if the command fails */
+  policy: FailurePolicy;
+
+  /** failures whose output matches one of the patterns are ignored by the ignore policy */
+  ignorePatterns: RegExp[];
+}
+
+export interface ScriptCommandResult {
+  command: ScriptCommand;
+
+  status: 'succeeded' | 'failed' | 'ignored' | 'skipped' | 'timed out';
+
+  /** exit code of the command, undefined if it was skipped or could not be started */
+  code?: number;
+
+  /** duration of the command in milliseconds */
+  duration: number;
+}
+
+const FAILURE_POLICIES: FailurePolicy[] = ['stop', 'continue', 'ignore'];
+const FAILURE_DIRECTIVE = /^on-failure:\s*(\S+)\s*(.*)$/;
+
+/**
+ * Validates the name of a failure policy.
+ *
+ * @param value the name of the policy, stop if empty.
+ * @return the failure policy.
+ */
+export function toFailurePolicy(value: string | undefined): FailurePolicy {
+  const policy = (value || 'stop').trim().toLowerCase();
+  if (!FAILURE_POLICIES.includes(policy as FailurePolicy)) {
+    throw new Error(
+      `Unknown failure policy '${value}'. Use stop, continue or ignore.`
+    );
+  }
+  return policy as FailurePolicy;
+}
+
+/**
+ * Compiles regular expressions specified one per line.
+ *
+ * @param value the patterns.
+ * @param kind the kind of patterns, used in error messages.
+ * @return the compiled patterns.
+ */
+export function parsePatterns(
+  value: string | undefined,
+  kind = 'ignore'
+): RegExp[] {
+  return (value || '')
+    .split(/\r?\n/)
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern)
+    .map(pattern => {
+      try {
+        return new RegExp(pattern);
+      } catch (ex) {
+        throw new Error(`Invalid ${kind} pattern '${pattern}'. ${ex.message}`);
+      }
+    });
+}
+
+/**
+ * Splits a script into its commands, one per line. Blank lines and comments are skipped. A
+ * trailing comment `# on-failure: stop|continue|ignore [pattern]` overrides the failure
+ * policy of its line, the pattern being added to the ignore patterns. All lines are checked
+ * for syntax errors before anything runs.
+ *
+ * @param script the script.
+ * @param policy the failure policy of lines without directive.
+ * @param ignorePatterns the patterns of failures ignored by the ignore policy.
+ * @return the commands of the script.
+ */
+export function parseScript(
+  script: string,
+  policy: FailurePolicy,
+  ignorePatterns: RegExp[]
+): ScriptCommand[] {
+  return script.split(/\r?\n/).reduce(
+    (commands, text, index) => {
+      const line = index + 1;
+      try {
+        const comment = tokenize(text).find(token => token.type === 'comment');
+        const command = (comment
+          ? text.substring(0, comment.position)
+          : text
+        ).trim();
+        if (!command) {
+          return commands;
+        }
+        parseCommandLine(command);
+
+        const directive = comment
+          ? FAILURE_DIRECTIVE.exec(comment.value)
+          : undefined;
+        commands.push({
+          line,
+          command,
+          policy: directive ? toFailurePolicy(directive[1]) : policy,
+          ignorePatterns:
+            directive && directive[2]
+              ? [...ignorePatterns, ...parsePatterns(directive[2])]
+              : ignorePatterns
+        });
+        return commands;
+      } catch (ex) {
+        throw new Error(`Line ${line}: ${ex.message}`);
+      }
+    },
+    [] as ScriptCommand[]
+  );
+}
+
+async function runCommand(
+  ocPath: string,
+  command: ScriptCommand,
+  retryOptions?: RetryOptions,
+  timeoutOptions?: TimeoutOptions
+): Promise<ScriptCommandResult> {
+  console.log(`##[group]${command.command}`);
+  const start = Date.now();
+  let code: number | undefined;
+  let timedOut = false;
+  let output: string;
+  try {
+    const result = await RunnerHandler.execOc(
+      ocPath,
+      command.command,
+      true,
+      retryOptions,
+      timeoutOptions
+    );
+    ({ code, timedOut } = result);
+    output = result.stdout + result.stderr;
+  } catch (ex) {
+    tl.error(ex.message);
+    output = ex.message;
+  } finally {
+    console.log('##[endgroup]');
+  }
+  const duration = Date.now() - start;
+
+  if (code === 0) {
+    const status = timedOut ? 'timed out' : 'succeeded';
+    return { command, status, code, duration };
+  }
+  if (
+    command.policy === 'ignore' &&
+    command.ignorePatterns.some(pattern => pattern.test(output))
+  ) {
+    tl.warning(
+      `Ignoring the failure of line ${command.line}: ${command.command}`
+    );
+    return { command, status: 'ignored', code, duration };
+  }
+  return { command, status: 'failed', code, duration };
+}
+
+/**
+ * Runs the commands of a script one after another, each in its own log group. After a failed
+ * command the remaining commands are skipped, unless its policy is to continue.
+ *
+ * @param ocPath absolute path to the oc binary.
+ * @param commands the commands of the script.
+ * @param retryOptions how commands failing with a transient error are retried.
+ * @param timeoutOptions how long a command may run and what to do if it takes longer.
+ * @return the results of all commands.
+ */
+export async function runScript(
+  ocPath: string,
+  commands: ScriptCommand[],
+  retryOptions?: RetryOptions,
+  timeoutOptions?: TimeoutOptions
+): Promise<ScriptCommandResult[]> {
+  return commands.reduce(async (previous, command) => {
+    const results = await previous;
+    const stopped = results.some(
+      result =>
+        result.status === 'failed' && result.command.policy !== 'continue'
+    );
+    const result: ScriptCommandResult = stopped
+      ? { command, status: 'skipped', duration: 0 }
+      : await runCommand(ocPath, command, retryOptions, timeoutOptions);
+    return [...results, result];
+  }, Promise.resolve([] as ScriptCommandResult[]));
+}
+
+function pad(value: string, width: number): string {
+  return value + ' '.repeat(Math.max(width - value.length, 0));
+}
+
+/**
+ * Formats the results of a script as a table showing the exit code and duration of every line.
+ *
+ * @param results the results of the commands.
+ * @return the table.
+ */
+export function formatSummary(results: ScriptCommandResult[]): string {
+  const rows = [
+    ['Line', 'Exit code', 'Duration', 'Status', 'Command'],
+    ...results.map(result => [
+      `${result.command.line}`,
+      result.code === undefined ? '-' : `${result.code}`,
+      result.status === 'skipped'
+        ? '-'
+        : `${(result.duration / 1000).toFixed(1)}s`,
+      result.status,
+      result.command.command
+    ])
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map(row => row[column].length))
+  );
+  return rows
+    .map(row =>
+      row
+        .map(
+          (cell, column) =>
+            column < row.length - 1 ? pad(cell, widths[column]) : cell
+        )
+        .join('  ')
+    )
+    .join('\n');
+}
+
+/**
+ * Runs a script, logs the summary table and fails if any command failed.
+ *
+ * @param ocPath absolute path to the oc binary.
+ * @param script the script.
+ * @param policy the failure policy of lines without directive.
+ * @param ignorePatterns the patterns of failures ignored by the ignore policy.
+ * @param retryOptions how commands failing with a transient error are retried.
+ * @param timeoutOptions how long a command may run and what to do if it takes longer.
+ * @return the results of all commands.
+ */
+export async function execScript(
+  ocPath: string,
+  script: string,
+  policy: FailurePolicy,
+  ignorePatterns: RegExp[],
+  retryOptions?: RetryOptions,
+  timeoutOptions?: TimeoutOptions
+): Promise<ScriptCommandResult[]> {
+  const commands = parseScript(script, policy, ignorePatterns);
+  if (commands.length === 0) {
+    return Promise.reject(new Error('The script contains no commands.'));
+  }
+  const results = await runScript(
+    ocPath,
+    commands,
+    retryOptions,
+    timeoutOptions
+  );
+  console.log(formatSummary(results));
+
+  const failed = results.filter(result => result.status === 'failed');
+  if (failed.length > 0) {
+    return Promise.reject(
+      new Error(
+        `${failed.length} of ${
+          results.length
+        } commands failed (lines ${failed
+          .map(result => result.command.line)
+          .join(', ')}).`
+      )
+    );
+  }
+  return results;
+}
@@ -3,20 +3,61 @@
  *  Licensed under the MIT License. See LICENSE file in the project root for license information.
  *-----------------------------------------------------------------------------------------------*/
 import { InstallHandler } from './oc-install';
+import { VersionHandler } from './oc-version';
 import * as auth from './oc-auth';
+import { verifyConnection } from './oc-preflight';
+import { downloadSecureFile } from './utils/secure-file';
 
 import task = require('azure-pipelines-task-lib/task');
 
 async function run(): Promise<void> {
-  const version: string = task.getInput('version');
+  const endpoints = auth.getOpenShiftEndpoints();
+  const [endpoint] = endpoints;
+  await auth.loadCertificateAuthority(
+    endpoints,
+    task.getInput('certificateAuthoritySecureFile')
+  );
+  const secureFile: string = task.getInput('secureFile');
+  const version: string = secureFile
+    ? await downloadSecureFile(secureFile)
+    : await VersionHandler.resolveAutoVersion(task.getInput('version'), endpoint);
   const agentOS: string = task.osType();
   const proxy: string = task.getInput('proxy');
-  const ocPath: string = await InstallHandler.installOc(version, agentOS, false, proxy);
+  const checksum: string = task.getInput('checksum');
+  const architecture: string = task.getInput('architecture');
+  const ocPath: string = await InstallHandler.installOc(
+    version,
+    agentOS,
+    false,
+    proxy,
+    checksum,
+    architecture
+  );
   if (ocPath === null) {
     throw new Error('no oc binary found');
   }
   InstallHandler.addOcToPath(ocPath, agentOS);
-  await auth.createKubeConfig(auth.getOpenShiftEndpoint(), ocPath, agentOS);
+
+  const tools: string[] = task
+    .getDelimitedInput('tools', ',', false)
+    .map(tool => tool.trim());
+  const toolPaths: string[] = await InstallHandler.installTools(
+    tools,
+    agentOS,
+    proxy,
+    architecture
+  );
+  toolPaths.forEach(toolPath =>
+    InstallHandler.addOcToPath(toolPath, agentOS)
+  );
+
+  await auth.createKubeConfig(endpoints, agentOS, {
+    useHomeKubeConfig: task.getBoolInput('useHomeKubeConfig'),
+    context: task.getInput('context'),
+    namespace: task.getInput('namespace'),
+    exportContexts: true
+  });
+  await verifyConnection(ocPath);
 }
 
 run()
@@ -0,0 +1,116 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import { ChildProcess, StdioOptions } from 'child_process';
+import { parseWholeNumber } from './utils/utils';
+
+import child = require('child_process');
+
+export type TimeoutBehavior = 'fail' | 'warn' | 'succeedWithIssues';
+
+export interface TimeoutOptions {
+  /** timeout in milliseconds of every pipeline, 0 disables the timeout */
+  timeout: number;
+
+  /** what to do if a pipeline times out */
+  onTimeout: TimeoutBehavior;
+}
+
+export interface SpawnedProcess {
+  /** the command line of the process */
+  command: string;
+
+  /** the process */
+  process: ChildProcess;
+
+  /** whether the process exited */
+  exited: boolean;
+}
+
+/** time processes get to exit after SIGTERM before they are killed */
+const KILL_GRACE_PERIOD = 5000;
+
+const BEHAVIORS: TimeoutBehavior[] = ['fail', 'warn', 'succeedWithIssues'];
+
+/**
+ * Creates the timeout options from the task inputs.
+ *
+ * @param timeout the timeout in seconds, no timeout if empty or 0.
+ * @param onTimeout fail, warn or succeedWithIssues, fail if empty.
+ * @return the timeout options.
+ */
+export function createTimeoutOptions(
+  timeout: string | undefined,
+  onTimeout: string | undefined
+): TimeoutOptions {
+  const behavior = BEHAVIORS.find(
+    value => value.toLowerCase() === (onTimeout || 'fail').trim().toLowerCase()
+  );
+  if (!behavior) {
+    throw new Error(
+      `Unknown timeout behavior '${onTimeout}'. Use fail, warn or succeedWithIssues.`
+    );
+  }
+  return {
+    timeout: parseWholeNumber(timeout, 0, 'timeout') * 1000,
+    onTimeout: behavior
+  };
+}
+
+/**
+ * Spawns a process and keeps track of whether it is still running, so that it can be
+ * terminated if it takes too long.
+ *
+ * @param file the executable to run.
+ * @param args the arguments of the executable.
+ * @param stdio the stdio configuration of the process.
+ * @return the spawned process.
+ */
+export function spawnProcess(
+  file: string,
+  args: string[],
+  stdio: StdioOptions
+): SpawnedProcess {
+  const process = child.spawn(file, args, { stdio });
+  const spawned: SpawnedProcess = {
+    command: [file, ...args].join(' '),
+    process,
+    exited: false
+  };
+  const onExit = (): void => {
+    spawned.exited = true;
+  };
+  process.on('exit', onExit);
+  process.on('error', onExit);
+  return spawned;
+}
+
+/**
+ * Terminates the processes which are still running, e.g. all processes of a hung pipe chain.
+ * Processes ignoring SIGTERM are killed after a grace period.
+ *
+ * @param processes the processes.
+ * @param reason why the processes are terminated, logged for every process.
+ * @return the command lines of the terminated processes.
+ */
+export function terminateProcesses(
+  processes: SpawnedProcess[],
+  reason: string
+): string[] {
+  const running = processes.filter(({ exited }) => !exited);
+  running.forEach(({ command, process }) => {
+    console.log(`${reason}, terminating '${command}' (pid ${process.pid}).`);
+    process.kill('SIGTERM');
+  });
+  if (running.length > 0) {
+    setTimeout(
+      () =>
+        running
+          .filter(({ exited }) => !exited)
+          .forEach(({ process }) => process.kill('SIGKILL')),
+      KILL_GRACE_PERIOD
+    ).unref();
+  }
+  return running.map(({ command }) => command);
+}
@@ -0,0 +1,75 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import { AMD64, ARM64, PPC64LE, S390X } from './constants';
+
+/**
+ * Describes how a client tool is published on the OpenShift mirror.
+ */
+export interface ToolDescriptor {
+  /** name of the tool, used as name of the binary and of the tool cache entry */
+  name: string;
+
+  /** path of the mirror directory containing one directory per release, relative to the mirror URL */
+  path: string;
+
+  /**
+   * bundle name per OS type ('Linux', 'Darwin' or 'Windows_NT'). `{arch}` is replaced by the
+   * architecture and `{archSuffix}` by `-<arch>` for architectures other than amd64.
+   */
+  bundles: { [osType: string]: string };
+
+  /** architectures for which bundles are published */
+  archs: string[];
+
+  /** arguments printing the client version of the tool */
+  versionArgs: string;
+}
+
+export const TOOLS: { [name: string]: ToolDescriptor } = {
+  kubectl: {
+    name: 'kubectl',
+    path: 'pub/openshift-v4/clients/ocp',
+    bundles: {
+      Linux: 'openshift-client-linux{archSuffix}.tar.gz',
+      Darwin: 'openshift-client-mac{archSuffix}.tar.gz',
+      'Windows_NT': 'openshift-client-windows.zip'
+    },
+    archs: [AMD64, ARM64, PPC64LE, S390X],
+    versionArgs: 'version --client'
+  },
+  helm: {
+    name: 'helm',
+    path: 'pub/openshift-v4/clients/helm',
+    bundles: {
+      Linux: 'helm-linux-{arch}.tar.gz',
+      Darwin: 'helm-darwin-{arch}.tar.gz',
+      'Windows_NT': 'helm-windows-{arch}.exe.zip'
+    },
+    archs: [AMD64, ARM64, PPC64LE, S390X],
+    versionArgs: 'version --short'
+  },
+  tkn: {
+    name: 'tkn',
+    path: 'pub/openshift-v4/clients/pipeline',
+    bundles: {
+      Linux: 'tkn-linux-{arch}.tar.gz',
+      Darwin: 'tkn-macos-{arch}.tar.gz',
+      'Windows_NT': 'tkn-windows-{arch}.zip'
+    },
+    archs: [AMD64, ARM64, PPC64LE, S390X],
+    versionArgs: 'version --component client'
+  },
+  kn: {
+    name: 'kn',
+    path: 'pub/openshift-v4/clients/serverless',
+    bundles: {
+      Linux: 'kn-linux-{arch}.tar.gz',
+      Darwin: 'kn-macos-{arch}.tar.gz',
+      'Windows_NT': 'kn-windows-{arch}.zip'
+    },
+    archs: [AMD64, ARM64, PPC64LE, S390X],
+    versionArgs: 'version'
+  }
+};
@@ -0,0 +1,445 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as fs from 'fs';
+import { getProxyAgent } from './utils/download';
+import { getMirrorHeaders } from './oc-mirror';
+import { OpenShiftEndpoint, getServerAgent } from './oc-auth';
+import { AUTO_VERSION, TOKEN_AUTHENTICATION } from './constants';
+
+import tl = require('azure-pipelines-task-lib/task');
+import path = require('path');
+import semver = require('semver');
+import fetch = require('node-fetch');
+
+const INDEX_CACHE_FILE = 'oc-mirror-index.json';
+const SERVER_TIMEOUT = 30000;
+
+export class VersionHandler {
+  /**
+   * Determines whether the specified version is a semver range or wildcard (e.g. 4.6.x, ~4.7, >=4.5 <4.8)
+   * rather than an explicit version or a (major).(minor) version.
+   *
+   * @param version the version of `oc` requested by the user.
+   */
+  static isVersionRange(version: string): boolean {
+    if (!version || !/[xX*~^<>=|\s]/.test(version.trim())) {
+      return false;
+    }
+    return semver.validRange(version.trim()) !== null;
+  }
+
+  /**
+   * Determines whether the specified version is a release channel (e.g. stable-4.8)
+   * which is published by the mirror as a directory of its own.
+   *
+   * @param version the version of `oc` requested by the user.
+   */
+  static isChannel(version: string): boolean {
+    return /^(stable|fast|candidate|eus|latest)-\d+\.\d+$/.test(
+      version ? version.trim() : ''
+    );
+  }
+
+  /**
+   * Lists the release directories published in the directory index of a mirror.
+   * The result is cached for the duration of the job so that subsequent tasks do not
+   * fetch the index again.
+   *
+   * @param baseUrl the URL of the mirror directory containing one directory per release.
+   * @param proxy proxy to use to fetch the directory index
+   * @return the names of the release directories. Empty if the index cannot be retrieved.
+   */
+  static async listVersions(baseUrl: string, proxy?: string): Promise<string[]> {
+    const indexCache = VersionHandler.readIndexCache();
+    if (indexCache[baseUrl]) {
+      tl.debug(`using cached directory index of ${baseUrl}`);
+      return indexCache[baseUrl];
+    }
+
+    const indexUrl = `${baseUrl}/`;
+    let index: string;
+    try {
+      tl.debug(`fetching directory index ${indexUrl}`);
+      const response = await fetch(indexUrl, {
+        headers: getMirrorHeaders(indexUrl),
+        agent: getProxyAgent(indexUrl, proxy)
+      });
+      if (!response.ok) {
+        tl.debug(`Unable to fetch ${indexUrl}. Status ${response.status}`);
+        return [];
+      }
+      index = await response.text();
+    } catch (ex) {
+      tl.debug(`Unable to fetch ${indexUrl}. Err ${ex}`);
+      return [];
+    }
+
+    const versions = VersionHandler.parseDirectoryIndex(index);
+    if (versions.length > 0) {
+      indexCache[baseUrl] = versions;
+      VersionHandler.writeIndexCache(indexCache);
+    }
+    return versions;
+  }
+
+  /**
+   * @return the path of the file caching the mirror directory indexes for the current job
+   * or undefined if the agent temp directory is not available.
+   */
+  static getIndexCachePath(): string | undefined {
+    const tempDir = tl.getVariable('Agent.TempDirectory');
+    return tempDir ? path.join(tempDir, INDEX_CACHE_FILE) : undefined;
+  }
+
+  static readIndexCache(): { [baseUrl: string]: string[] } {
+    const cachePath = VersionHandler.getIndexCachePath();
+    if (!cachePath || !fs.existsSync(cachePath)) {
+      return {};
+    }
+    try {
+      return JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+    } catch (ex) {
+      tl.debug(`Unable to read directory index cache ${cachePath}. Err ${ex}`);
+      return {};
+    }
+  }
+
+  static writeIndexCache(indexCache: { [baseUrl: string]: string[] }): void {
+    const cachePath = VersionHandler.getIndexCachePath();
+    if (!cachePath) {
+      return;
+    }
+    try {
+      fs.writeFileSync(cachePath, JSON.stringify(indexCache));
+    } catch (ex) {
+      tl.debug(`Unable to write directory index cache ${cachePath}. Err ${ex}`);
+    }
+  }
+
+  /**
+   * Extracts the release directories from an HTML directory index.
+   *
+   * @param index the HTML directory index.
+   * @return the names of the directories which look like a version (e.g. 3.11.154 or 4.6).
+   */
+  static parseDirectoryIndex(index: string): string[] {
+    const versions = new Set<string>();
+    const hrefRegEx = /href="([^"?#]+)"/gi;
+    let match = hrefRegEx.exec(index);
+    while (match) {
+      const name = match[1]
+        .replace(/\/$/, '')
+        .split('/')
+        .pop();
+      if (/^v?\d+\.\d+(\.\d+)*$/.test(name)) {
+        versions.add(name);
+      }
+      match = hrefRegEx.exec(index);
+    }
+    return Array.from(versions);
+  }
+
+  /**
+   * Converts a release directory name to a comparable semver version.
+   *
+   * @param version the release directory name (e.g. 4.6, 4.6.1 or 3.3.1.46.45).
+   * @return the semver version or null if the name cannot be converted.
+   */
+  static toSemver(version: string): string | null {
+    const parts = version.replace(/^v/, '').split('.');
+    if (parts.length < 2) {
+      return null;
+    }
+    return semver.valid(`${parts[0]}.${parts[1]}.${parts[2] || 0}`);
+  }
+
+  /**
+   * Determines the newest release published on the mirrors matching a semver range.
+   *
+   * @param range the semver range or wildcard (e.g. 4.6.x, ~4.7, >=4.5 <4.8).
+   * @param baseUrls the URLs of the mirror directories containing one directory per release.
+   * @param proxy proxy to use to fetch the directory indexes
+   * @return the name of the newest matching release directory or null if none matches.
+   */
+  static async resolveVersionRange(
+    range: string,
+    baseUrls: string[],
+    proxy?: string
+  ): Promise<string | null> {
+    const indexes = await Promise.all(
+      baseUrls.map(baseUrl => VersionHandler.listVersions(baseUrl, proxy))
+    );
+    return VersionHandler.maxSatisfying(
+      [].concat(...indexes),
+      range
+    );
+  }
+
+  /**
+   * Resolves a release channel to the release it currently points to. The channel directories
+   * of the mirror contain a release.txt naming the release, e.g. `Name: 4.8.57`.
+   *
+   * @param channel the release channel (e.g. stable-4.8).
+   * @param baseUrl the URL of the mirror directory containing the channel directories.
+   * @param proxy proxy to use to fetch the release.txt
+   * @return the release or null if the channel cannot be resolved.
+   */
+  static async resolveChannel(
+    channel: string,
+    baseUrl: string,
+    proxy?: string
+  ): Promise<string | null> {
+    const url = `${baseUrl}/${channel.trim()}/release.txt`;
+    try {
+      tl.debug(`fetching ${url}`);
+      const response = await fetch(url, {
+        headers: getMirrorHeaders(url),
+        agent: getProxyAgent(url, proxy)
+      });
+      if (!response.ok) {
+        tl.debug(`Unable to fetch ${url}. Status ${response.status}`);
+        return null;
+      }
+      const name = /^Name:\s*(\S+)\s*$/m.exec(await response.text());
+      return name ? name[1] : null;
+    } catch (ex) {
+      tl.debug(`Unable to fetch ${url}. Err ${ex}`);
+      return null;
+    }
+  }
+
+  /**
+   * Returns the newest release matching a semver range.
+   *
+   * @param versions the release directory names.
+   * @param range the semver range or wildcard.
+   * @return the name of the newest matching release directory or null if none matches.
+   */
+  static maxSatisfying(versions: string[], range: string): string | null {
+    let result: string | null = null;
+    let resultSemver: string | null = null;
+    for (const version of versions) {
+      const versionSemver = VersionHandler.toSemver(version);
+      if (
+        versionSemver &&
+        semver.satisfies(versionSemver, range.trim()) &&
+        (!resultSemver || semver.gt(versionSemver, resultSemver))
+      ) {
+        result = version;
+        resultSemver = versionSemver;
+      }
+    }
+    tl.debug(`newest release matching ${range}: ${result}`);
+    return result;
+  }
+
+  /**
+   * Computes the newest patch release per (major).(minor) version.
+   *
+   * @param versions the release directory names.
+   * @return the newest release directory name keyed by (major).(minor) (e.g. { '4.6': '4.6.12' }).
+   */
+  static latestPatches(versions: string[]): { [majorMinor: string]: string } {
+    const latest: { [majorMinor: string]: string } = {};
+    for (const version of versions) {
+      const versionSemver = VersionHandler.toSemver(version);
+      if (versionSemver) {
+        const majorMinor = `${semver.major(versionSemver)}.${semver.minor(
+          versionSemver
+        )}`;
+        const current = latest[majorMinor];
+        if (
+          !current ||
+          semver.gt(versionSemver, VersionHandler.toSemver(current))
+        ) {
+          latest[majorMinor] = version;
+        }
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * Determines the newest patch release published on the mirrors for the (major).(minor)
+   * of the specified version.
+   *
+   * @param version the version of `oc` (e.g. 4.9 or 4.9.3).
+   * @param baseUrls the URLs of the mirror directories containing one directory per release.
+   * @param proxy proxy to use to fetch the directory indexes
+   * @return the name of the newest patch release directory or null if it cannot be determined.
+   */
+  static async latestPatch(
+    version: string,
+    baseUrls: string[],
+    proxy?: string
+  ): Promise<string | null> {
+    const majorMinor = /\d+\.\d+/.exec(version || '');
+    if (!majorMinor) {
+      return null;
+    }
+    const indexes = await Promise.all(
+      baseUrls.map(baseUrl => VersionHandler.listVersions(baseUrl, proxy))
+    );
+    const latest = VersionHandler.latestPatches([].concat(...indexes))[
+      majorMinor[0]
+    ];
+    tl.debug(`latest patch release of ${majorMinor[0]}: ${latest}`);
+    return latest || null;
+  }
+
+  /**
+   * Resolves the 'auto' version to the (major).(minor) version of the cluster referenced by
+   * the service connection, so that a matching oc client is installed. Any other version is
+   * returned as is.
+   *
+   * @param version the version of `oc` requested by the user.
+   * @param endpoint the OpenShift endpoint.
+   * @return the version to install. Blank (latest) if the server version cannot be determined.
+   */
+  static async resolveAutoVersion(
+    version: string,
+    endpoint: OpenShiftEndpoint
+  ): Promise<string> {
+    if (!version || version.trim().toLowerCase() !== AUTO_VERSION) {
+      return version;
+    }
+
+    const serverVersion = await VersionHandler.getServerVersion(endpoint);
+    if (!serverVersion) {
+      tl.warning(
+        `Unable to determine the version of ${endpoint.serverUrl}. The latest oc version is used.`
+      );
+      return '';
+    }
+
+    console.log(
+      `Using oc ${serverVersion} matching the version of ${endpoint.serverUrl}`
+    );
+    return serverVersion;
+  }
+
+  /**
+   * Determines the OpenShift version of a cluster. The version is read from the clusterversion
+   * resource (OpenShift 4), from the /version/openshift endpoint (OpenShift 3) and finally derived
+   * from the Kubernetes version returned by /version.
+   *
+   * @param endpoint the OpenShift endpoint.
+   * @return the (major).(minor) version of OpenShift (e.g. 4.6) or null if it cannot be determined.
+   */
+  static async getServerVersion(
+    endpoint: OpenShiftEndpoint
+  ): Promise<string | null> {
+    if (!endpoint || !endpoint.serverUrl) {
+      return null;
+    }
+
+    const clusterVersion = await VersionHandler.fetchServerJson(
+      endpoint,
+      '/apis/config.openshift.io/v1/clusterversions/version'
+    );
+    const desiredVersion =
+      clusterVersion &&
+      clusterVersion.status &&
+      clusterVersion.status.desired &&
+      clusterVersion.status.desired.version;
+    if (desiredVersion) {
+      tl.debug(`cluster version ${desiredVersion}`);
+      return VersionHandler.toMajorMinor(desiredVersion);
+    }
+
+    const openShiftVersion = await VersionHandler.fetchServerJson(
+      endpoint,
+      '/version/openshift'
+    );
+    if (openShiftVersion && openShiftVersion.gitVersion) {
+      tl.debug(`openshift version ${openShiftVersion.gitVersion}`);
+      return VersionHandler.toMajorMinor(openShiftVersion.gitVersion);
+    }
+
+    const kubeVersion = await VersionHandler.fetchServerJson(
+      endpoint,
+      '/version'
+    );
+    if (kubeVersion && kubeVersion.gitVersion) {
+      tl.debug(`kubernetes version ${kubeVersion.gitVersion}`);
+      return VersionHandler.kubeToOpenShiftVersion(kubeVersion.gitVersion);
+    }
+
+    return null;
+  }
+
+  /**
+   * Retrieves a JSON resource from the cluster API server, authenticating with the token of the
+   * service connection if available and honoring its TLS settings.
+   *
+   * @param endpoint the OpenShift endpoint.
+   * @param apiPath the path of the resource (e.g. /version).
+   * @return the parsed resource or undefined if it cannot be retrieved.
+   */
+  static async fetchServerJson(
+    endpoint: OpenShiftEndpoint,
+    apiPath: string
+  ): Promise<any> {
+    const url = `${endpoint.serverUrl.replace(/\/+$/, '')}${apiPath}`;
+    const headers: { [key: string]: string } = { Accept: 'application/json' };
+    if (
+      endpoint.scheme === TOKEN_AUTHENTICATION &&
+      endpoint.parameters.apitoken
+    ) {
+      headers.Authorization = `Bearer ${endpoint.parameters.apitoken}`;
+    }
+
+    try {
+      tl.debug(`fetching ${url}`);
+      const response = await fetch(url, {
+        headers,
+        agent: getServerAgent(endpoint, url),
+        timeout: SERVER_TIMEOUT
+      });
+      if (!response.ok) {
+        tl.debug(`Unable to fetch ${url}. Status ${response.status}`);
+        return undefined;
+      }
+      return await response.json();
+    } catch (ex) {
+      tl.debug(`Unable to fetch ${url}. Err ${ex}`);
+    }
+    return undefined;
+  }
+
+  /**
+   * @param version a version such as 4.6.12 or v3.11.0+d4cacc0.
+   * @return the (major).(minor) part of the version or null if it is not a version.
+   */
+  static toMajorMinor(version: string): string | null {
+    const match = /^v?(\d+)\.(\d+)/.exec(version.trim());
+    return match ? `${match[1]}.${match[2]}` : null;
+  }
+
+  /**
+   * Maps a Kubernetes version to the OpenShift version shipping it
+   * (e.g. 1.11 to 3.11, 1.13 to 4.1, 1.14 to 4.2 and 1.16 onwards to 4.3 onwards).
+   *
+   * @param gitVersion the Kubernetes version (e.g. v1.19.0+9f84db3).
+   * @return the (major).(minor) version of OpenShift or null if there is no matching release.
+   */
+  static kubeToOpenShiftVersion(gitVersion: string): string | null {
+    const match = /^v?1\.(\d+)/.exec(gitVersion.trim());
+    if (!match) {
+      return null;
+    }
+    const minor = +match[1];
+    if (minor >= 16) {
+      return `4.${minor - 13}`;
+    }
+    if (minor === 14 || minor === 13) {
+      return `4.${minor - 12}`;
+    }
+    if (minor >= 6 && minor <= 11) {
+      return `3.${minor}`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,280 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as fs from 'fs';
+import { Agent } from 'http';
+import { Readable } from 'stream';
+import { URL } from 'url';
+
+import tl = require('azure-pipelines-task-lib/task');
+import fetch = require('node-fetch');
+import HttpsProxyAgent = require('https-proxy-agent');
+
+export interface DownloadOptions {
+  /** proxy (host:port or URL) to use instead of the agent proxy configuration */
+  proxy?: string;
+
+  /** additional request headers, e.g. for authentication */
+  headers?: { [key: string]: string };
+
+  /** number of retries after the first failed attempt */
+  retries?: number;
+
+  /** delay in milliseconds before the first retry, doubled on every further retry */
+  retryDelay?: number;
+
+  /** time in milliseconds without receiving any data after which the download is considered stalled */
+  readTimeout?: number;
+}
+
+const DEFAULT_RETRIES = 4;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_READ_TIMEOUT = 60000;
+
+class DownloadError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Determines the proxy URL to use for the specified request. An explicitly passed proxy takes
+ * precedence over the proxy configured on the agent, which honors the agent proxy bypass list.
+ *
+ * @param url the request URL.
+ * @param proxy proxy (host:port or URL) specified by the user.
+ * @return the proxy URL including credentials or undefined if no proxy has to be used.
+ */
+export function getProxyUrl(url: string, proxy?: string): string | undefined {
+  if (proxy) {
+    return proxy.includes('://') ? proxy : `http://${proxy}`;
+  }
+
+  const config = tl.getHttpProxyConfiguration(url);
+  if (!config || !config.proxyUrl) {
+    return undefined;
+  }
+
+  if (!config.proxyUsername) {
+    return config.proxyUrl;
+  }
+  const proxyUrl = new URL(config.proxyUrl);
+  proxyUrl.username = config.proxyUsername;
+  proxyUrl.password = config.proxyPassword || '';
+  return proxyUrl.toString();
+}
+
+/**
+ * Creates the http agent routing the specified request through a proxy, if any.
+ *
+ * @param url the request URL.
+ * @param proxy proxy (host:port or URL) specified by the user.
+ * @return the agent or undefined if no proxy has to be used.
+ */
+export function getProxyAgent(url: string, proxy?: string): Agent | undefined {
+  const proxyUrl = getProxyUrl(url, proxy);
+  if (!proxyUrl) {
+    return undefined;
+  }
+  tl.debug(`using proxy ${new URL(proxyUrl).host} for ${url}`);
+  return new HttpsProxyAgent(proxyUrl);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function fileSize(filePath: string): number {
+  return fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+}
+
+async function writeBody(
+  body: Readable,
+  filePath: string,
+  append: boolean,
+  offset: number,
+  total: number | undefined,
+  readTimeout: number
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const file = fs.createWriteStream(filePath, {
+      flags: append ? 'a' : 'w'
+    });
+    let received = 0;
+    let reported = 0;
+    let timer: NodeJS.Timeout;
+    const watchStall = (): void => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        body.unpipe(file);
+        body.destroy();
+        file.end();
+        reject(
+          new DownloadError(
+            `Download stalled, no data received for ${readTimeout} ms`,
+            true
+          )
+        );
+      }, readTimeout);
+    };
+    watchStall();
+    body.on('data', (chunk: Buffer) => {
+      watchStall();
+      received += chunk.length;
+      if (total) {
+        const percent = Math.floor(((offset + received) * 100) / total);
+        if (percent >= reported + 10) {
+          reported = percent - (percent % 10);
+          console.log(
+            `Downloaded ${reported}% (${offset + received} of ${total} bytes)`
+          );
+        }
+      }
+    });
+    body.on('error', err => {
+      clearTimeout(timer);
+      file.end();
+      reject(new DownloadError(`Download interrupted: ${err.message}`, true));
+    });
+    file.on('error', err => {
+      clearTimeout(timer);
+      reject(new DownloadError(err.message, false));
+    });
+    file.on('finish', () => {
+      clearTimeout(timer);
+      resolve(received);
+    });
+    body.pipe(file);
+  });
+}
+
+async function downloadOnce(
+  url: string,
+  filePath: string,
+  options: DownloadOptions
+): Promise<void> {
+  const partialPath = `${filePath}.part`;
+  const offset = fileSize(partialPath);
+  const headers: { [key: string]: string } = { ...options.headers };
+  if (offset > 0) {
+    tl.debug(`resuming download of ${url} at byte ${offset}`);
+    headers.Range = `bytes=${offset}-`;
+  }
+
+  let response;
+  try {
+    response = await fetch(url, {
+      headers,
+      compress: false,
+      agent: getProxyAgent(url, options.proxy)
+    });
+  } catch (err) {
+    throw new DownloadError(
+      `Unable to download ${url}: ${err.message}`,
+      true
+    );
+  }
+
+  if (response.status === 416 && offset > 0) {
+    // the partial file is already complete or does not match the remote file anymore
+    const range = /\/(\d+)$/.exec(
+      response.headers.get('content-range') || ''
+    );
+    if (range && +range[1] === offset) {
+      fs.renameSync(partialPath, filePath);
+      return;
+    }
+    tl.rmRF(partialPath);
+    throw new DownloadError(`Unable to resume download of ${url}`, true);
+  }
+
+  if (!response.ok) {
+    throw new DownloadError(
+      `Unable to download ${url}: ${response.status} ${response.statusText}`,
+      isRetryableStatus(response.status)
+    );
+  }
+
+  const resumed = response.status === 206;
+  const start = resumed ? offset : 0;
+  const length = response.headers.get('content-length');
+  const total = length ? start + +length : undefined;
+  const received = await writeBody(
+    response.body,
+    partialPath,
+    resumed,
+    start,
+    total,
+    options.readTimeout !== undefined
+      ? options.readTimeout
+      : DEFAULT_READ_TIMEOUT
+  );
+
+  if (total !== undefined && start + received < total) {
+    throw new DownloadError(
+      `Download of ${url} incomplete: received ${start + received} of ${total} bytes`,
+      true
+    );
+  }
+
+  fs.renameSync(partialPath, filePath);
+}
+
+async function downloadWithRetries(
+  url: string,
+  filePath: string,
+  options: DownloadOptions,
+  attempt: number
+): Promise<void> {
+  try {
+    await downloadOnce(url, filePath, options);
+  } catch (err) {
+    const retries =
+      options.retries !== undefined ? options.retries : DEFAULT_RETRIES;
+    if (
+      !(err instanceof DownloadError) ||
+      !err.retryable ||
+      attempt >= retries
+    ) {
+      throw err;
+    }
+    const retryDelay =
+      options.retryDelay !== undefined
+        ? options.retryDelay
+        : DEFAULT_RETRY_DELAY;
+    const delay = retryDelay * 2 ** attempt;
+    console.log(
+      `${err.message}. Retrying in ${delay} ms (attempt ${attempt +
+        2} of ${retries + 1})`
+    );
+    await sleep(delay);
+    await downloadWithRetries(url, filePath, options, attempt + 1);
+  }
+}
+
+/**
+ * Downloads the specified URL into a file. Failed downloads are retried with exponential backoff
+ * and partially downloaded files are resumed using range requests. The file is only created once
+ * the download is complete.
+ *
+ * @param url the URL to download.
+ * @param filePath the full path of the file to create.
+ * @param options download options.
+ */
+export async function downloadFile(
+  url: string,
+  filePath: string,
+  options: DownloadOptions = {}
+): Promise<void> {
+  console.log(`Downloading ${url}`);
+  await downloadWithRetries(url, filePath, options, 0);
+  tl.debug(`downloaded ${url} to ${filePath}`);
+}
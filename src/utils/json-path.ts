@@ -0,0 +1,218 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+
+type Selector = (value: any) => any[];
+
+const COMPARISON = /^(@(?:\.[\w-]+|\[[^\]]*\])*)\s*(==|!=|<=|>=|<|>)\s*(.+)$/;
+
+function children(value: any): any[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value !== null && typeof value === 'object'
+    ? Object.keys(value).map(key => value[key])
+    : [];
+}
+
+function descendants(value: any): any[] {
+  return children(value).reduce(
+    (all: any[], child) => [...all, child, ...descendants(child)],
+    []
+  );
+}
+
+function property(name: string): Selector {
+  return (value: any): any[] =>
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.prototype.hasOwnProperty.call(value, name)
+      ? [value[name]]
+      : [];
+}
+
+function index(position: number): Selector {
+  return (value: any): any[] => {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    const element = value[position < 0 ? value.length + position : position];
+    return element === undefined ? [] : [element];
+  };
+}
+
+function parseLiteral(literal: string): any {
+  const quoted = /^'(.*)'$|^"(.*)"$/.exec(literal);
+  if (quoted) {
+    return quoted[1] !== undefined ? quoted[1] : quoted[2];
+  }
+  return JSON.parse(literal);
+}
+
+function compare(left: any, operator: string, right: any): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '<':
+      return left < right;
+    case '>':
+      return left > right;
+    case '<=':
+      return left <= right;
+    default:
+      return left >= right;
+  }
+}
+
+export class JsonPath {
+  private readonly selectors: Selector[] = [];
+
+  private position = 0;
+
+  /**
+   * Compiles a JSONPath expression as used by `oc -o jsonpath`, e.g. `{.items[0].metadata.name}`,
+   * or a jq like path, e.g. `.items[].metadata.name`. Supported are properties, indexes,
+   * wildcards, recursive descent and filters comparing a property to a literal.
+   *
+   * @param expression the expression.
+   * @throws Error if the expression is invalid.
+   */
+  constructor(private readonly expression: string) {
+    // jq's identity '.' selects the whole document
+    const path = expression
+      .trim()
+      .replace(/^\{(.*)\}$/, '$1')
+      .replace(/^\.$/, '');
+    const start = path.startsWith('$') ? 1 : 0;
+    this.parse(start === 0 && /^[\w-]/.test(path) ? `.${path}` : path, start);
+  }
+
+  /**
+   * Evaluates the expression against a document.
+   *
+   * @param document the parsed JSON document.
+   * @return the matching values.
+   */
+  evaluate(document: any): any[] {
+    return this.selectors.reduce(
+      (values: any[], selector) =>
+        values.reduce(
+          (matches: any[], value) => [...matches, ...selector(value)],
+          []
+        ),
+      [document]
+    );
+  }
+
+  private fail(reason: string): never {
+    throw new Error(`Invalid expression '${this.expression}': ${reason}.`);
+  }
+
+  private parse(path: string, start: number): void {
+    this.position = start;
+    while (this.position < path.length) {
+      if (path.startsWith('..', this.position)) {
+        this.position += 2;
+        this.selectors.push(value => [value, ...descendants(value)]);
+        if (path[this.position] !== '[') {
+          this.parseName(path);
+        }
+      } else if (path[this.position] === '.') {
+        this.position += 1;
+        this.parseName(path);
+      } else if (path[this.position] === '[') {
+        this.parseBracket(path);
+      } else {
+        this.fail(`unexpected '${path[this.position]}'`);
+      }
+    }
+  }
+
+  private parseName(path: string): void {
+    const name = /^(\*|[^.[\]]+)/.exec(path.substring(this.position));
+    if (!name) {
+      this.fail('missing property name');
+    }
+    this.position += name[0].length;
+    this.selectors.push(name[0] === '*' ? children : property(name[0]));
+  }
+
+  private parseBracket(path: string): void {
+    const end = this.findClosingBracket(path);
+    const content = path.substring(this.position + 1, end).trim();
+    if (content === '' || content === '*') {
+      this.selectors.push(children);
+    } else if (/^-?\d+$/.test(content)) {
+      this.selectors.push(index(parseInt(content, 10)));
+    } else if (/^'.*'$|^".*"$/.test(content)) {
+      this.selectors.push(property(content.slice(1, -1)));
+    } else if (/^\?\(.*\)$/.test(content)) {
+      this.selectors.push(this.parseFilter(content.slice(2, -1).trim()));
+    } else {
+      this.fail(`unsupported selector '[${content}]'`);
+    }
+    this.position = end + 1;
+  }
+
+  private findClosingBracket(path: string): number {
+    let quote: string | undefined;
+    let depth = 0;
+    for (let i = this.position + 1; i < path.length; i += 1) {
+      const char = path[i];
+      if (quote) {
+        quote = char === quote ? undefined : quote;
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === '[') {
+        depth += 1;
+      } else if (char === ']') {
+        if (depth === 0) {
+          return i;
+        }
+        depth -= 1;
+      }
+    }
+    return this.fail("missing ']'");
+  }
+
+  private parseFilter(filter: string): Selector {
+    const comparison = COMPARISON.exec(filter);
+    const operand = comparison ? comparison[1] : filter;
+    if (!operand.startsWith('@')) {
+      this.fail(`unsupported filter '${filter}'`);
+    }
+    const path = new JsonPath(`$${operand.substring(1)}`);
+    let literal: any;
+    if (comparison) {
+      try {
+        literal = parseLiteral(comparison[3].trim());
+      } catch (ex) {
+        this.fail(`invalid literal '${comparison[3].trim()}'`);
+      }
+    }
+    return (value: any): any[] =>
+      children(value).filter(child => {
+        const [actual] = path.evaluate(child);
+        return comparison
+          ? actual !== undefined && compare(actual, comparison[2], literal)
+          : actual !== undefined;
+      });
+  }
+}
+
+/**
+ * Formats the values matched by an expression like `oc -o jsonpath` does: strings are printed
+ * as is, other values as JSON, several values separated by spaces.
+ *
+ * @param values the matched values.
+ * @return the formatted values.
+ */
+export function formatJsonPathResult(values: any[]): string {
+  return values
+    .map(value => (typeof value === 'string' ? value : JSON.stringify(value)))
+    .join(' ');
+}
@@ -0,0 +1,126 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as fs from 'fs';
+
+import tl = require('azure-pipelines-task-lib/task');
+
+export interface LockOptions {
+  /** time in milliseconds to wait for the lock before giving up */
+  timeout?: number;
+
+  /** delay in milliseconds between two attempts to acquire the lock */
+  retryInterval?: number;
+
+  /** age in milliseconds after which a lock which has not been refreshed is considered abandoned */
+  stale?: number;
+}
+
+const DEFAULT_TIMEOUT = 15 * 60 * 1000;
+const DEFAULT_RETRY_INTERVAL = 1000;
+const DEFAULT_STALE = 2 * 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isStale(lockPath: string, stale: number): boolean {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > stale;
+  } catch (ex) {
+    // the lock has been released in the meantime
+    return false;
+  }
+}
+
+/**
+ * Tries to acquire a lock file without waiting. While the lock is held its modification time
+ * is refreshed, so that the lock of a crashed job is detected as stale by other jobs.
+ *
+ * @param lockPath the full path of the lock file.
+ * @param stale age in milliseconds after which an unrefreshed lock is considered abandoned.
+ * @return a function releasing the lock or undefined if the lock is held by someone else.
+ */
+export function tryAcquireLock(
+  lockPath: string,
+  stale: number = DEFAULT_STALE
+): (() => void) | undefined {
+  try {
+    fs.writeFileSync(lockPath, `${process.pid}`, { flag: 'wx' });
+  } catch (ex) {
+    if (ex.code !== 'EEXIST' || !isStale(lockPath, stale)) {
+      return undefined;
+    }
+    tl.debug(`removing abandoned lock ${lockPath}`);
+    tl.rmRF(lockPath);
+    return tryAcquireLock(lockPath, stale);
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    try {
+      fs.utimesSync(lockPath, now, now);
+    } catch (ex) {
+      tl.debug(`Unable to refresh lock ${lockPath}. Err ${ex}`);
+    }
+  }, stale / 3);
+  heartbeat.unref();
+
+  return (): void => {
+    clearInterval(heartbeat);
+    tl.rmRF(lockPath);
+  };
+}
+
+async function waitForLock(
+  lockPath: string,
+  options: LockOptions,
+  deadline: number
+): Promise<() => void> {
+  const release = tryAcquireLock(lockPath, options.stale);
+  if (release) {
+    return release;
+  }
+  if (Date.now() >= deadline) {
+    return Promise.reject(
+      new Error(`Timed out waiting for lock ${lockPath} held by another job.`)
+    );
+  }
+  await sleep(
+    options.retryInterval !== undefined
+      ? options.retryInterval
+      : DEFAULT_RETRY_INTERVAL
+  );
+  return waitForLock(lockPath, options, deadline);
+}
+
+/**
+ * Runs the specified function while holding a lock file, waiting for other processes holding
+ * the lock to release it first.
+ *
+ * @param lockPath the full path of the lock file. Its directory must exist.
+ * @param fn the function to run.
+ * @param options lock options.
+ * @return the result of the function.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: LockOptions = {}
+): Promise<T> {
+  const lockOptions = { stale: DEFAULT_STALE, ...options };
+  let release = tryAcquireLock(lockPath, lockOptions.stale);
+  if (!release) {
+    console.log(`Waiting for another job to release ${lockPath}`);
+    const timeout =
+      options.timeout !== undefined ? options.timeout : DEFAULT_TIMEOUT;
+    release = await waitForLock(lockPath, lockOptions, Date.now() + timeout);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
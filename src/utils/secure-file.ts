@@ -0,0 +1,57 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import { downloadFile } from './download';
+
+import tl = require('azure-pipelines-task-lib/task');
+import path = require('path');
+
+const SECURE_FILES_API_VERSION = '5.0-preview.1';
+
+/**
+ * Downloads a secure file of the pipeline library into the agent temp directory.
+ *
+ * @param secureFileId the id of the secure file as passed to a `secureFile` task input.
+ * @return the full path to the downloaded file.
+ */
+export async function downloadSecureFile(
+  secureFileId: string
+): Promise<string> {
+  const fileName = tl.getSecureFileName(secureFileId);
+  const ticket = tl.getSecureFileTicket(secureFileId);
+  const collectionUri = tl.getVariable('System.TeamFoundationCollectionUri');
+  const projectId = tl.getVariable('System.TeamProjectId');
+  const accessToken = tl.getEndpointAuthorizationParameter(
+    'SYSTEMVSSCONNECTION',
+    'AccessToken',
+    true
+  );
+  if (!fileName || !ticket || !collectionUri || !projectId) {
+    return Promise.reject(
+      new Error(
+        `Unable to download secure file ${secureFileId}. Make sure the pipeline is authorized to use it.`
+      )
+    );
+  }
+  tl.setSecret(ticket);
+
+  const url = `${collectionUri.replace(
+    /\/+$/,
+    ''
+  )}/${projectId}/_apis/distributedtask/securefiles/${encodeURIComponent(
+    secureFileId
+  )}?ticket=${encodeURIComponent(
+    ticket
+  )}&download=true&api-version=${SECURE_FILES_API_VERSION}`;
+  const downloadDir =
+    tl.getVariable('Agent.TempDirectory') ||
+    `${process.env.SYSTEM_DEFAULTWORKINGDIRECTORY}/.download`;
+  tl.mkdirP(downloadDir);
+  const filePath = path.join(downloadDir, fileName);
+
+  await downloadFile(url, filePath, {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {}
+  });
+  return filePath;
+}
@@ -0,0 +1,302 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import sub = require('substituter');
+
+export type ListOperator = '&&' | '||' | ';';
+
+export interface Token {
+  type: 'word' | 'operator' | 'comment';
+
+  /** the word with quotes and escapes removed, the operator or the comment text after `#` */
+  value: string;
+
+  /** zero based position of the token in the command line */
+  position: number;
+}
+
+export interface Redirect {
+  /** the redirected stream, 1 for stdout and 2 for stderr */
+  fd: 1 | 2;
+
+  /** the file to write to, undefined when redirecting stderr to stdout */
+  target?: string;
+
+  /** whether to append to the file instead of overwriting it */
+  append: boolean;
+}
+
+export interface Command {
+  /** the command followed by its arguments */
+  args: string[];
+
+  /** redirections in the order they were specified */
+  redirects: Redirect[];
+}
+
+export interface Pipeline {
+  /** commands whose output is piped into the next one */
+  commands: Command[];
+
+  /** the source text of the pipeline */
+  text: string;
+}
+
+export interface CommandListEntry {
+  pipeline: Pipeline;
+
+  /** the operator joining the pipeline to the previous one, undefined for the first pipeline */
+  operator?: ListOperator;
+}
+
+export type CommandList = CommandListEntry[];
+
+const LIST_OPERATORS = ['&&', '||', ';'];
+const REDIRECT_OPERATORS = ['>', '>>', '2>', '2>>'];
+// characters an unquoted backslash escapes. Other backslashes are kept, e.g. in Windows paths
+const ESCAPABLE = ' \t\'"|&;<>$\\';
+const ESCAPABLE_IN_DOUBLE_QUOTES = '"$\\`';
+
+/**
+ * Error raised for command lines which cannot be parsed. The message points to the position
+ * of the error with a caret.
+ */
+export class ShellSyntaxError extends Error {
+  readonly position: number;
+
+  constructor(reason: string, line: string, position: number) {
+    super(
+      `Syntax error at position ${position +
+        1}: ${reason}\n${line}\n${' '.repeat(position)}^`
+    );
+    this.position = position;
+  }
+}
+
+function isWhitespace(char: string): boolean {
+  return /\s/.test(char);
+}
+
+function readOperator(line: string, index: number): string | undefined {
+  const rest = line.substr(index, 4);
+  if (rest.startsWith('2>&1')) {
+    return '2>&1';
+  }
+  return ['2>>', '>>', '2>', '&&', '||', '>', '|', ';'].find(operator =>
+    rest.startsWith(operator)
+  );
+}
+
+/**
+ * Splits a command line into words and operators. Single quotes, double quotes and backslash
+ * escapes are handled like in a POSIX shell. Environment variables in the form `${NAME}` are
+ * interpolated everywhere, including single quotes, and their values are never split. A `#` at
+ * the start of a word begins a comment which extends to the end of the line.
+ *
+ * @param line the command line.
+ * @return the tokens.
+ * @throws ShellSyntaxError for unterminated quotes and unsupported operators.
+ */
+export function tokenize(line: string): Token[] {
+  const tokens: Token[] = [];
+  let word: string | undefined;
+  let wordPosition = 0;
+  let index = 0;
+
+  const append = (text: string, start: number, interpolate: boolean): void => {
+    if (word === undefined) {
+      word = '';
+      wordPosition = start;
+    }
+    word += interpolate ? sub(text, process.env) : text;
+  };
+  const endWord = (): void => {
+    if (word !== undefined) {
+      tokens.push({ type: 'word', value: word, position: wordPosition });
+      word = undefined;
+    }
+  };
+
+  while (index < line.length) {
+    const char = line[index];
+    if (isWhitespace(char)) {
+      endWord();
+      index += 1;
+    } else if (char === '#' && word === undefined) {
+      tokens.push({
+        type: 'comment',
+        value: line.substring(index + 1).trim(),
+        position: index
+      });
+      index = line.length;
+    } else if (char === "'") {
+      const end = line.indexOf("'", index + 1);
+      if (end < 0) {
+        throw new ShellSyntaxError('unterminated single quote', line, index);
+      }
+      append(line.substring(index + 1, end), index, true);
+      index = end + 1;
+    } else if (char === '"') {
+      const start = index;
+      let text = '';
+      index += 1;
+      while (index < line.length && line[index] !== '"') {
+        if (
+          line[index] === '\\' &&
+          ESCAPABLE_IN_DOUBLE_QUOTES.includes(line[index + 1])
+        ) {
+          index += 1;
+        }
+        text += line[index];
+        index += 1;
+      }
+      if (index >= line.length) {
+        throw new ShellSyntaxError('unterminated double quote', line, start);
+      }
+      append(text, start, true);
+      index += 1;
+    } else if (char === '\\' && ESCAPABLE.includes(line[index + 1])) {
+      append(line[index + 1], index, false);
+      index += 2;
+    } else {
+      const operator =
+        char === '2' && word !== undefined
+          ? undefined
+          : readOperator(line, index);
+      if (operator) {
+        endWord();
+        tokens.push({ type: 'operator', value: operator, position: index });
+        index += operator.length;
+      } else if (char === '&') {
+        throw new ShellSyntaxError(
+          'background execution (&) is not supported',
+          line,
+          index
+        );
+      } else if (char === '<') {
+        throw new ShellSyntaxError(
+          'input redirection (<) is not supported',
+          line,
+          index
+        );
+      } else if (char === '$' && line[index + 1] === '{') {
+        const end = line.indexOf('}', index);
+        const variable =
+          end < 0 ? line.substring(index) : line.substring(index, end + 1);
+        append(variable, index, true);
+        index += variable.length;
+      } else {
+        append(char, index, false);
+        index += 1;
+      }
+    }
+  }
+  endWord();
+  return tokens;
+}
+
+/**
+ * Parses a command line into a list of pipelines joined by `&&`, `||` or `;`. Each pipeline
+ * consists of commands joined by `|`, the last of which may redirect its output with `>`, `>>`,
+ * `2>`, `2>>` or `2>&1`.
+ *
+ * @param line the command line.
+ * @return the parsed command list, empty for blank command lines.
+ * @throws ShellSyntaxError if the command line is invalid.
+ */
+export function parseCommandLine(line: string): CommandList {
+  const allTokens = tokenize(line);
+  const comment = allTokens.find(token => token.type === 'comment');
+  const tokens = allTokens.filter(token => token !== comment);
+  const lineEnd = comment ? comment.position : line.length;
+  const list: CommandList = [];
+  let index = 0;
+
+  const fail = (reason: string, position: number): never => {
+    throw new ShellSyntaxError(reason, line, position);
+  };
+
+  const parseCommand = (): Command => {
+    const command: Command = { args: [], redirects: [] };
+    const start = tokens[index];
+    while (index < tokens.length) {
+      const token = tokens[index];
+      if (token.type === 'word') {
+        command.args.push(token.value);
+        index += 1;
+      } else if (token.value === '2>&1') {
+        command.redirects.push({ fd: 2, append: false });
+        index += 1;
+      } else if (REDIRECT_OPERATORS.includes(token.value)) {
+        const target = tokens[index + 1];
+        if (!target || target.type !== 'word') {
+          fail(
+            `missing file name after '${token.value}'`,
+            target ? target.position : lineEnd
+          );
+        }
+        command.redirects.push({
+          fd: token.value.startsWith('2') ? 2 : 1,
+          target: target.value,
+          append: token.value.endsWith('>>')
+        });
+        index += 2;
+      } else {
+        break;
+      }
+    }
+    if (command.args.length === 0) {
+      const isRedirect =
+        start &&
+        (start.value === '2>&1' || REDIRECT_OPERATORS.includes(start.value));
+      fail(
+        start && start.type === 'operator' && !isRedirect
+          ? `unexpected '${start.value}'`
+          : 'missing command',
+        start ? start.position : lineEnd
+      );
+    }
+    return command;
+  };
+
+  const parsePipeline = (): Pipeline => {
+    const start = tokens[index].position;
+    const commands = [parseCommand()];
+    while (index < tokens.length && tokens[index].value === '|') {
+      const pipe = tokens[index];
+      // the stdout of a command piped into another one goes into the pipe
+      const { redirects } = commands[commands.length - 1];
+      if (redirects.some(({ fd, target }) => fd !== 2 || target === undefined)) {
+        fail(
+          'only stderr can be redirected to a file on a command piped into another command',
+          pipe.position
+        );
+      }
+      index += 1;
+      if (index >= tokens.length) {
+        fail("unexpected end of command after '|'", lineEnd);
+      }
+      commands.push(parseCommand());
+    }
+    const end = index < tokens.length ? tokens[index].position : lineEnd;
+    return { commands, text: line.substring(start, end).trim() };
+  };
+
+  let operator: ListOperator | undefined;
+  while (index < tokens.length) {
+    list.push({ pipeline: parsePipeline(), operator });
+    if (index < tokens.length) {
+      const token = tokens[index];
+      if (!LIST_OPERATORS.includes(token.value)) {
+        fail(`unexpected '${token.value}'`, token.position);
+      }
+      operator = token.value as ListOperator;
+      index += 1;
+      if (index >= tokens.length && operator !== ';') {
+        fail(`unexpected end of command after '${operator}'`, lineEnd);
+      }
+    }
+  }
+  return list;
+}
@@ -2,6 +2,9 @@
  *  Copyright (c) Red Hat, Inc. All rights reserved.
  *  Licensed under the MIT License. See LICENSE file in the project root for license information.
  *-----------------------------------------------------------------------------------------------*/
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
 import decompress = require('decompress');
 import decompressTargz = require('decompress-targz');
 import Zip = require('adm-zip');
@@ -30,3 +33,44 @@ export async function unzipArchive(
     }
   }
 }
+
+/**
+ * Computes the SHA-256 digest of the specified file.
+ *
+ * @param filePath the file to hash.
+ * @return the lower case hex encoded digest.
+ */
+export async function sha256(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Parses a whole number task input.
+ *
+ * @param value the input value.
+ * @param defaultValue the value used if the input is empty.
+ * @param description what the number means, used in error messages.
+ * @return the number.
+ */
+export function parseWholeNumber(
+  value: string | undefined,
+  defaultValue: number,
+  description: string
+): number {
+  if (!value || !value.trim()) {
+    return defaultValue;
+  }
+  const parsed = Number(value.trim());
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(
+      `Invalid ${description} '${value}'. Specify a whole number.`
+    );
+  }
+  return parsed;
+}
@@ -0,0 +1,102 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import { JsonPath, formatJsonPathResult } from '../src/utils/json-path';
+
+const { expect } = chai;
+
+describe('json-path', () => {
+  const pods = {
+    kind: 'List',
+    items: [
+      {
+        metadata: {
+          name: 'web-1',
+          labels: { 'app.kubernetes.io/name': 'web' }
+        },
+        spec: { replicas: 1 },
+        status: {
+          conditions: [
+            { type: 'Ready', status: 'True' },
+            { type: 'Initialized', status: 'True' }
+          ]
+        }
+      },
+      {
+        metadata: { name: 'db-1', labels: {} },
+        spec: { replicas: 3 },
+        status: { conditions: [{ type: 'Ready', status: 'False' }] }
+      }
+    ]
+  };
+
+  function evaluate(expression: string): any[] {
+    return new JsonPath(expression).evaluate(pods);
+  }
+
+  describe('#evaluate', () => {
+    it('select properties and indexes of oc jsonpath expressions', () => {
+      expect(evaluate('{.items[0].metadata.name}')).deep.equals(['web-1']);
+      expect(evaluate('{$.items[-1].spec.replicas}')).deep.equals([3]);
+      expect(
+        evaluate("{.items[0].metadata.labels['app.kubernetes.io/name']}")
+      ).deep.equals(['web']);
+    });
+
+    it('select properties of jq like paths', () => {
+      expect(evaluate('.items[].metadata.name')).deep.equals(['web-1', 'db-1']);
+      expect(evaluate('kind')).deep.equals(['List']);
+      expect(evaluate('.')).deep.equals([pods]);
+    });
+
+    it('support wildcards and recursive descent', () => {
+      expect(evaluate('{.items[*].spec.replicas}')).deep.equals([1, 3]);
+      expect(evaluate('{..replicas}')).deep.equals([1, 3]);
+      expect(evaluate('{.items[0].spec.*}')).deep.equals([1]);
+    });
+
+    it('support filters', () => {
+      expect(
+        evaluate(
+          '{.items[?(@.status.conditions[0].status=="False")].metadata.name}'
+        )
+      ).deep.equals(['db-1']);
+      expect(
+        evaluate("{.items[0].status.conditions[?(@.type=='Ready')].status}")
+      ).deep.equals(['True']);
+      expect(
+        evaluate('{.items[?(@.spec.replicas > 1)].metadata.name}')
+      ).deep.equals(['db-1']);
+      expect(
+        evaluate('{.items[?(@.metadata.labels.*)].metadata.name}')
+      ).deep.equals(['web-1']);
+    });
+
+    it('return no values for missing properties', () => {
+      expect(evaluate('{.items[5].metadata}')).deep.equals([]);
+      expect(evaluate('{.kind.name}')).deep.equals([]);
+    });
+
+    it('throw error for invalid expressions', () => {
+      expect(() => new JsonPath('{.items[0}')).to.throw(
+        "Invalid expression '{.items[0}': missing ']'."
+      );
+      expect(() => new JsonPath('.items[1:2]')).to.throw(
+        "unsupported selector '[1:2]'"
+      );
+      expect(() => new JsonPath('.items[?(@.a == x)]')).to.throw(
+        "invalid literal 'x'"
+      );
+    });
+  });
+
+  describe('#formatJsonPathResult', () => {
+    it('format values like oc -o jsonpath', () => {
+      expect(formatJsonPathResult(['a', 1, { b: true }])).equals(
+        'a 1 {"b":true}'
+      );
+    });
+  });
+});
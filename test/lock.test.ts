@@ -0,0 +1,95 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import * as fs from 'fs';
+import { tryAcquireLock, withFileLock } from '../src/utils/lock';
+
+import path = require('path');
+import tl = require('azure-pipelines-task-lib/task');
+
+const { expect } = chai;
+
+describe('lock', () => {
+  const testOutDir = path.join(__dirname, '..', 'out', 'test', 'lock');
+  const lockPath = path.join(testOutDir, 'oc-4.6.12.lock');
+
+  beforeEach(() => {
+    tl.mkdirP(testOutDir);
+  });
+
+  afterEach(() => {
+    tl.rmRF(testOutDir);
+  });
+
+  describe('#tryAcquireLock', () => {
+    it('acquires free lock and releases it', () => {
+      const release = tryAcquireLock(lockPath);
+      expect(release).to.be.a('function');
+      expect(fs.readFileSync(lockPath, 'utf-8')).equals(`${process.pid}`);
+      release();
+      expect(fs.existsSync(lockPath)).to.be.false;
+    });
+
+    it('does not acquire lock held by someone else', () => {
+      fs.writeFileSync(lockPath, '1');
+      expect(tryAcquireLock(lockPath)).to.be.undefined;
+    });
+
+    it('acquires abandoned lock', () => {
+      fs.writeFileSync(lockPath, '1');
+      const old = new Date(Date.now() - 60000);
+      fs.utimesSync(lockPath, old, old);
+      const release = tryAcquireLock(lockPath, 30000);
+      expect(release).to.be.a('function');
+      release();
+    });
+  });
+
+  describe('#withFileLock', () => {
+    it('runs function while holding the lock', async () => {
+      const res = await withFileLock(lockPath, async () =>
+        fs.existsSync(lockPath)
+      );
+      expect(res).to.be.true;
+      expect(fs.existsSync(lockPath)).to.be.false;
+    });
+
+    it('releases lock if function fails', async () => {
+      try {
+        await withFileLock(lockPath, async () => {
+          throw new Error('failed');
+        });
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals('failed');
+      }
+      expect(fs.existsSync(lockPath)).to.be.false;
+    });
+
+    it('waits for lock to be released by another job', async () => {
+      fs.writeFileSync(lockPath, '1');
+      setTimeout(() => fs.unlinkSync(lockPath), 50);
+      const res = await withFileLock(lockPath, async () => 'done', {
+        retryInterval: 10
+      });
+      expect(res).equals('done');
+    });
+
+    it('fails if lock is not released in time', async () => {
+      fs.writeFileSync(lockPath, '1');
+      try {
+        await withFileLock(lockPath, async () => 'done', {
+          retryInterval: 10,
+          timeout: 50
+        });
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          `Timed out waiting for lock ${lockPath} held by another job.`
+        );
+      }
+    });
+  });
+});
@@ -4,14 +4,19 @@
  *-----------------------------------------------------------------------------------------------*/
 import * as chai from 'chai';
 import * as sinon from 'sinon';
+import * as fs from 'fs';
+import { EventEmitter } from 'events';
 import { IExecSyncResult } from 'azure-pipelines-task-lib/toolrunner';
 import { RunnerHandler } from '../src/oc-exec';
+import { createRetryOptions } from '../src/oc-retry';
+import * as OcTimeout from '../src/oc-timeout';
+import { Pipeline } from '../src/utils/shell-parser';
 
 import { ToolRunnerStub } from './toolrunnerStub';
 
 const {expect} = chai;
 // import sinon
-import stream = require('stream');
+import path = require('path');
 import tl = require('azure-pipelines-task-lib/task');
 
 describe('oc-exec', () => {
@@ -27,113 +32,531 @@ describe('oc-exec', () => {
     sandbox.restore();
   });
 
+  function pipeline(...commands: string[][]): Pipeline {
+    return {
+      commands: commands.map(args => ({ args, redirects: [] })),
+      text: commands.map(args => args.join(' ')).join(' | ')
+    };
+  }
+
   describe('#execOc', () => {
-    it('check createExecOptions is called with correct params', async () => {
-      const optionsStub = sandbox.stub(RunnerHandler, 'createExecOptions');
-      sandbox.stub(RunnerHandler, 'initToolRunners');
-      sandbox.stub(RunnerHandler, 'unifyToolRunners').returns(stubs.tr);
-      await RunnerHandler.execOc(null, 'cmd1', false);
-      sinon.assert.calledWith(optionsStub, undefined, false);
-    });
-
-    it('check initToolRunners is called with correct commands splitted and correct path if set', async () => {
-      sandbox.stub(RunnerHandler, 'createExecOptions');
-      const initStub = sandbox.stub(RunnerHandler, 'initToolRunners');
-      sandbox.stub(RunnerHandler, 'unifyToolRunners').returns(stubs.tr);
+    it('check execPipeline is called with the parsed pipeline and correct path if set', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ code: 0, stdout: '', stderr: '' });
       await RunnerHandler.execOc('path', 'cmd1 | cmd2', false);
-      sinon.assert.calledWith(initStub, ['cmd1 ', '| cmd2'], 'path');
+      sinon.assert.calledWith(
+        execStub,
+        sinon.match({
+          commands: [
+            { args: ['oc', 'cmd1'], redirects: [] },
+            { args: ['cmd2'], redirects: [] }
+          ]
+        }),
+        'path'
+      );
     });
 
-    it('check initToolRunners is called with correct commands splitted and path passed is null', async () => {
-      sandbox.stub(RunnerHandler, 'createExecOptions');
-      const initStub = sandbox.stub(RunnerHandler, 'initToolRunners');
-      sandbox.stub(RunnerHandler, 'unifyToolRunners').returns(stubs.tr);
-      await RunnerHandler.execOc(null, 'cmd1 >> cmd2', false);
-      sinon.assert.calledWith(initStub, ['cmd1 ', '>', '> cmd2'], 'oc');
+    it('check execPipeline is called with oc if path passed is null', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ code: 0, stdout: '', stderr: '' });
+      await RunnerHandler.execOc(null, 'oc get pods', false);
+      sinon.assert.calledWith(
+        execStub,
+        sinon.match({
+          commands: [{ args: ['oc', 'get', 'pods'], redirects: [] }]
+        }),
+        'oc'
+      );
     });
 
-    it('check unifyToolRunners is called with correct params', async () => {
-      sandbox.stub(RunnerHandler, 'createExecOptions');
-      sandbox
-        .stub(RunnerHandler, 'initToolRunners')
-        .returns([stubs.tr, stubs.tr]);
-      const unifyStub = sandbox
-        .stub(RunnerHandler, 'unifyToolRunners')
-        .returns(stubs.tr);
+    it('keep operators inside quoted arguments', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ code: 0, stdout: '', stderr: '' });
+      await RunnerHandler.execOc(
+        null,
+        `get pods -o jsonpath='{.items[?(@.x>1)].a}|x' --template="2>{{.a}}"`,
+        false
+      );
+      sinon.assert.calledOnce(execStub);
+      expect(execStub.firstCall.args[0].commands).deep.equals([
+        {
+          args: [
+            'oc',
+            'get',
+            'pods',
+            '-o',
+            'jsonpath={.items[?(@.x>1)].a}|x',
+            '--template=2>{{.a}}'
+          ],
+          redirects: []
+        }
+      ]);
+    });
+
+    it('check execPipeline is called with the redirections of the command', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ code: 0, stdout: '', stderr: '' });
       await RunnerHandler.execOc(null, 'cmd1 > cmd2', false);
       sinon.assert.calledWith(
-        unifyStub,
-        ['cmd1 ', '> cmd2'],
-        [stubs.tr, stubs.tr],
-        undefined
+        execStub,
+        sinon.match({
+          commands: [
+            {
+              args: ['oc', 'cmd1'],
+              redirects: [{ fd: 1, target: 'cmd2', append: false }]
+            }
+          ]
+        }),
+        'oc'
+      );
+    });
+
+    it('run pipelines with shell semantics for && || and ;', async () => {
+      const execStub = sandbox.stub(RunnerHandler, 'execPipeline');
+      execStub.callsFake(async (value: Pipeline) => ({
+        code: value.text.startsWith('fail') ? 1 : 0,
+        stdout: `${value.text}\n`,
+        stderr: ''
+      }));
+      const res = await RunnerHandler.execOc(
+        null,
+        'fail && skipped || recovered && next ; fail2 || last',
+        false
+      );
+      expect(res).deep.equals({
+        code: 0,
+        stdout: 'fail\nrecovered\nnext\nfail2\nlast\n',
+        stderr: '',
+        timedOut: false
+      });
+      expect(execStub.getCalls().map(call => call.args[0].text)).deep.equals([
+        'fail',
+        'recovered',
+        'next',
+        'fail2',
+        'last'
+      ]);
+    });
+
+    it('reject with exit code of the command line if it fails', async () => {
+      sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ code: 2, stdout: '', stderr: '' });
+      try {
+        await RunnerHandler.execOc(null, 'get pods && get nodes', false);
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          "The command 'get pods' failed with exit code 2"
+        );
+      }
+    });
+
+    it('reject if the command line is killed by a signal', async () => {
+      sandbox.stub(console, 'log');
+      try {
+        await RunnerHandler.execOc(
+          process.execPath,
+          `oc -e "process.kill(process.pid, 'SIGKILL')"`,
+          false
+        );
+        expect.fail();
+      } catch (err) {
+        expect(err.message).matches(/failed with exit code 137$/);
+      }
+    });
+
+    it('ignore failures if ignoreFlag is set', async () => {
+      sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ code: 2, stdout: '', stderr: 'error: boom' });
+      const res = await RunnerHandler.execOc(null, 'get pods', true);
+      expect(res).deep.equals({
+        code: 2,
+        stdout: '',
+        stderr: 'error: boom',
+        timedOut: false
+      });
+    });
+
+    it('reject if a pipeline times out and the timeout fails the command', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ code: null, stdout: '', stderr: '', timedOut: true });
+      try {
+        await RunnerHandler.execOc(
+          null,
+          'rollout status dc/app ; get pods',
+          true,
+          undefined,
+          OcTimeout.createTimeoutOptions('30', 'fail')
+        );
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          "The command 'rollout status dc/app' timed out after 30s."
+        );
+      }
+      sinon.assert.calledOnce(execStub);
+      sinon.assert.calledWith(execStub, sinon.match.any, 'oc', 30000);
+    });
+
+    it('warn and carry on if a pipeline times out and the timeout does not fail the command', async () => {
+      const execStub = sandbox.stub(RunnerHandler, 'execPipeline');
+      execStub
+        .onFirstCall()
+        .resolves({ code: null, stdout: '', stderr: '', timedOut: true });
+      execStub.onSecondCall().resolves({ code: 0, stdout: 'pods', stderr: '' });
+      const warningStub = sandbox.stub(tl, 'warning');
+      const res = await RunnerHandler.execOc(
+        null,
+        'logs -f dc/app && get pods',
+        false,
+        undefined,
+        OcTimeout.createTimeoutOptions('30', 'succeedWithIssues')
+      );
+      expect(res).deep.equals({
+        code: 0,
+        stdout: 'pods',
+        stderr: '',
+        timedOut: true
+      });
+      sinon.assert.calledWith(
+        warningStub,
+        "The command 'logs -f dc/app' timed out after 30s."
       );
     });
+
+    it('reject syntax errors without running anything', async () => {
+      const execStub = sandbox.stub(RunnerHandler, 'execPipeline');
+      try {
+        await RunnerHandler.execOc(null, 'get pods | | grep x', false);
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          "Syntax error at position 12: unexpected '|'\nget pods | | grep x\n           ^"
+        );
+      }
+      sinon.assert.notCalled(execStub);
+    });
   });
 
-  describe('#unifyToolRunners', () => {
-    it('check if buildPipeToolRunner is called if there are pipes in commands', () => {
-      const pipeStub = sandbox.stub(RunnerHandler, 'buildPipeToolRunner');
-      RunnerHandler.unifyToolRunners(['cmd1', '| cmd2'], [stubs.tr, stubs.tr]);
-      sinon.assert.calledOnce(pipeStub);
+  describe('#execPipelineWithRetry', () => {
+    const transient = {
+      code: 1,
+      stdout: '',
+      stderr: 'Unable to connect to the server: connection refused'
+    };
+    const success = { code: 0, stdout: 'ok', stderr: '' };
+
+    beforeEach(() => {
+      sandbox.stub(console, 'log');
     });
 
-    it('check if createExecOptions is called fstCmd is a 2', () => {
-      const pipeStub = sandbox.stub(RunnerHandler, 'buildPipeToolRunner');
-      const createExecStub = sandbox.stub(RunnerHandler, 'createExecOptions');
-      RunnerHandler.unifyToolRunners(
-        ['cmd1', '2', '> cmd2'],
-        [stubs.tr, undefined, stubs.tr]
+    it('retry transient failures until the command succeeds', async () => {
+      const execStub = sandbox.stub(RunnerHandler, 'execPipeline');
+      execStub.onFirstCall().resolves(transient);
+      execStub.onSecondCall().resolves(success);
+      const res = await RunnerHandler.execPipelineWithRetry(
+        pipeline(['oc', 'get', 'pods']),
+        'oc',
+        createRetryOptions('3', '0', 'fixed', [], false)
+      );
+      expect(res).deep.equals(success);
+      sinon.assert.calledTwice(execStub);
+      sinon.assert.calledWith(
+        console.log as sinon.SinonStub,
+        sinon.match("Retrying 'oc get pods' in 0s (attempt 2 of 3).")
+      );
+    });
+
+    it('stop after the configured number of attempts', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves(transient);
+      const res = await RunnerHandler.execPipelineWithRetry(
+        pipeline(['oc', 'get', 'pods']),
+        'oc',
+        createRetryOptions('3', '0', 'fixed', [], false)
+      );
+      expect(res).deep.equals(transient);
+      sinon.assert.calledThrice(execStub);
+    });
+
+    it('not retry failures which do not match any pattern', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ code: 1, stdout: '', stderr: 'error: pods "x" not found' });
+      await RunnerHandler.execPipelineWithRetry(
+        pipeline(['oc', 'get', 'pods', 'x']),
+        'oc',
+        createRetryOptions('3', '0', 'fixed', [], false)
+      );
+      sinon.assert.calledOnce(execStub);
+    });
+
+    it('retry failures matching custom patterns', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ code: 1, stdout: '', stderr: 'error: quota exceeded' });
+      await RunnerHandler.execPipelineWithRetry(
+        pipeline(['oc', 'get', 'pods']),
+        'oc',
+        createRetryOptions('2', '0', 'fixed', [/quota exceeded/], false)
+      );
+      sinon.assert.calledTwice(execStub);
+    });
+
+    it('not retry non idempotent commands unless enabled', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves(transient);
+      await RunnerHandler.execPipelineWithRetry(
+        pipeline(['oc', 'create', 'ns', 'ci']),
+        'oc',
+        createRetryOptions('3', '0', 'fixed', [], false)
+      );
+      sinon.assert.calledOnce(execStub);
+      sinon.assert.calledWith(
+        console.log as sinon.SinonStub,
+        sinon.match("Not retrying 'oc create ns ci', create is not idempotent.")
+      );
+
+      await RunnerHandler.execPipelineWithRetry(
+        pipeline(['oc', 'create', 'ns', 'ci']),
+        'oc',
+        createRetryOptions('3', '0', 'fixed', [], true)
       );
-      sinon.assert.notCalled(pipeStub);
-      sinon.assert.calledOnce(createExecStub);
+      expect(execStub.callCount).equals(4);
     });
 
-    it('check if createExecOptions is not called if fstCmd is not a 2 but >', () => {
-      const pipeStub = sandbox.stub(RunnerHandler, 'buildPipeToolRunner');
-      const createExecStub = sandbox.stub(RunnerHandler, 'createExecOptions');
-      RunnerHandler.unifyToolRunners(
-        ['cmd1', '> cmd2'],
-        [stubs.tr, undefined, stubs.tr]
+    it('not retry pipelines which timed out', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves({ ...transient, timedOut: true });
+      await RunnerHandler.execPipelineWithRetry(
+        pipeline(['oc', 'get', 'pods']),
+        'oc',
+        createRetryOptions('3', '0', 'fixed', [], false),
+        1000
       );
-      sinon.assert.notCalled(pipeStub);
-      sinon.assert.notCalled(createExecStub);
+      sinon.assert.calledOnce(execStub);
     });
 
-    it('check first toolruner is returned if there is only one cmd', () => {
-      const res = RunnerHandler.unifyToolRunners(['cmd1'], [stubs.tr]);
-      expect(res).deep.equals(stubs.tr);
+    it('run the pipeline once without retry options', async () => {
+      const execStub = sandbox
+        .stub(RunnerHandler, 'execPipeline')
+        .resolves(transient);
+      await RunnerHandler.execPipelineWithRetry(
+        pipeline(['oc', 'get', 'pods']),
+        'oc'
+      );
+      sinon.assert.calledOnce(execStub);
     });
   });
 
-  describe('#createExecOptions', () => {
-    const options = {
-      cwd: process.cwd(),
-      env: ({ ...process.env}) as { [key: string]: string },
-      silent: false,
-      failOnStdErr: true,
-      ignoreReturnCode: true,
-      windowsVerbatimArguments: false,
-      outStream: process.stdout as stream.Writable,
-      errStream: process.stderr as stream.Writable
-    };
-    it('return same options sent if ignoreReturnCode and failOnStdErr are not defined', () => {
-      const res = RunnerHandler.createExecOptions(undefined);
-      expect(res).equals(undefined);
+  describe('#execPipeline', () => {
+    const node = process.execPath;
+
+    beforeEach(() => {
+      // run real processes instead of the stubbed ToolRunner
+      sandbox.restore();
     });
 
-    it('new options are created if nothing is passed as params', () => {
-      const res = RunnerHandler.createExecOptions(undefined, true, true);
-      expect(options.failOnStdErr).equals(res.failOnStdErr);
-      expect(options.ignoreReturnCode).equals(res.ignoreReturnCode);
-      expect(options.windowsVerbatimArguments).equals(
-        res.windowsVerbatimArguments
+    it('terminate all processes of the pipe chain when the timeout expires', async () => {
+      const logStub = sandbox.stub(console, 'log');
+      const res = await RunnerHandler.execPipeline(
+        pipeline(
+          [node, '-e', 'setInterval(() => console.log("tick"), 100)'],
+          [node, '-e', 'process.stdin.pipe(process.stdout)']
+        ),
+        'oc',
+        1000
       );
+      expect(res.timedOut).equals(true);
+      sinon.assert.calledWith(
+        logStub,
+        sinon.match(/^Timeout of 1s expired, terminating '.*setInterval.*' \(pid \d+\)\.$/)
+      );
+      expect(
+        logStub.getCalls().filter(call => /terminating/.test(call.args[0]))
+      ).to.have.length(2);
+    });
+
+    it('not time out pipelines finishing in time', async () => {
+      const res = await RunnerHandler.execPipeline(
+        pipeline([node, '-e', 'console.log("done")']),
+        'oc',
+        5000
+      );
+      expect(res).deep.equals({
+        code: 0,
+        stdout: `done${require('os').EOL}`,
+        stderr: '',
+        timedOut: false
+      });
+    });
+
+    it('pipe the output of each command into the next one', async () => {
+      sandbox.stub(console, 'log');
+      sandbox.stub(process.stdout, 'write');
+      const res = await RunnerHandler.execPipeline(
+        pipeline(
+          [node, '-e', 'console.log("a"); console.error("first")'],
+          [node, '-e', 'process.stdin.on("data", d => process.stdout.write(d + "b"))'],
+          [node, '-e', 'process.stdin.pipe(process.stdout); process.exitCode = 3']
+        ),
+        'oc'
+      );
+      sandbox.restore();
+      expect(res.code).equals(3);
+      expect(res.stdout).equals(`a${require('os').EOL}b`);
+      expect(res.stderr).contains('first');
+    });
+
+    it('write redirected stderr of a command piped into another command', async () => {
+      sandbox.stub(console, 'log');
+      sandbox.stub(process.stdout, 'write');
+      const errDir = path.join(__dirname, '..', 'out', 'test', 'pipeStderr');
+      const errFile = path.join(errDir, 'err.txt');
+      tl.mkdirP(errDir);
+      const value = pipeline(
+        [node, '-e', 'console.log("out"); console.error("noise")'],
+        [node, '-e', 'process.stdin.pipe(process.stdout)']
+      );
+      value.commands[0].redirects.push({
+        fd: 2,
+        target: errFile,
+        append: false
+      });
+      let res;
+      try {
+        res = await RunnerHandler.execPipeline(value, 'oc');
+        expect(fs.readFileSync(errFile, 'utf-8')).contains('noise');
+      } finally {
+        sandbox.restore();
+        tl.rmRF(errDir);
+      }
+      expect(res.stdout).contains('out');
+      expect(res.stderr).equals('');
+    });
+
+    it('report a command killed by a signal as failed', async () => {
+      sandbox.stub(console, 'log');
+      const res = await RunnerHandler.execPipeline(
+        pipeline([node, '-e', 'process.kill(process.pid, "SIGKILL")']),
+        'oc'
+      );
+      expect(res.code).equals(137);
+    });
+
+    it('reject if a command cannot be run', async () => {
+      sandbox.stub(console, 'log');
+      try {
+        await RunnerHandler.execPipeline(pipeline(['oc', 'get', 'pods']), path.join(__dirname, 'missing-oc'));
+        expect.fail();
+      } catch (err) {
+        expect(err.message).contains('missing-oc get pods failed.');
+      }
+    });
+
+    it('capture but never log hidden output', async () => {
+      // the command itself must not contain the secret
+      sandbox.stub(process, 'env').value({
+        ...process.env,
+        OC_TEST_TOKEN: 's3cret'
+      });
+      const written: string[] = [];
+      const { write } = process.stdout;
+      process.stdout.write = (data: string | Buffer): boolean => {
+        written.push(data.toString());
+        return true;
+      };
+      let res;
+      try {
+        res = await RunnerHandler.execPipeline(
+          pipeline([node, '-e', 'console.log(process.env.OC_TEST_TOKEN)']),
+          'oc',
+          undefined,
+          true
+        );
+      } finally {
+        process.stdout.write = write;
+      }
+      expect(res.stdout).contains('s3cret');
+      expect(written.join('')).not.contains('s3cret');
+      expect(written.join('')).contains('[command]');
+    });
+  });
+
+  describe('#redirectOutput', () => {
+    const testWorkingDir = path.join(__dirname, '..', 'out', 'test', 'redirect');
+    const outFile = path.join(testWorkingDir, 'out.txt');
+    const errFile = path.join(testWorkingDir, 'err.txt');
+
+    beforeEach(() => {
+      tl.mkdirP(testWorkingDir);
+    });
+
+    afterEach(() => {
+      tl.rmRF(testWorkingDir);
+    });
+
+    function emit(tr: EventEmitter): void {
+      tr.emit('stdout', Buffer.from('out\n'));
+      tr.emit('stderr', Buffer.from('err\n'));
+    }
+
+    it('write stdout and stderr to separate files', () => {
+      fs.writeFileSync(outFile, 'previous\n');
+      const tr = new EventEmitter();
+      RunnerHandler.redirectOutput(tr, [
+        { fd: 1, target: outFile, append: false },
+        { fd: 2, target: errFile, append: true }
+      ]);
+      emit(tr);
+      expect(fs.readFileSync(outFile, 'utf-8')).equals('out\n');
+      expect(fs.readFileSync(errFile, 'utf-8')).equals('err\n');
     });
 
-    it('check if options are changed correctly when requested', () => {
-      const res = RunnerHandler.createExecOptions(options, false, false);
-      expect(res.failOnStdErr).equals(false);
-      expect(res.ignoreReturnCode).equals(false);
+    it('append to existing files', () => {
+      fs.writeFileSync(outFile, 'previous\n');
+      const tr = new EventEmitter();
+      RunnerHandler.redirectOutput(tr, [
+        { fd: 1, target: outFile, append: true }
+      ]);
+      sandbox.stub(process.stderr, 'write');
+      emit(tr);
+      sandbox.restore();
+      expect(fs.readFileSync(outFile, 'utf-8')).equals('previous\nout\n');
+    });
+
+    it('discard output redirected to /dev/null', () => {
+      const writeStub = sandbox.stub(fs, 'writeFileSync');
+      const appendStub = sandbox.stub(fs, 'appendFileSync');
+      const tr = new EventEmitter();
+      RunnerHandler.redirectOutput(tr, [
+        { fd: 2, target: '/dev/null', append: false }
+      ]);
+      sandbox.stub(process.stdout, 'write');
+      emit(tr);
+      sandbox.restore();
+      sinon.assert.notCalled(writeStub);
+      sinon.assert.notCalled(appendStub);
+    });
+
+    it('write stderr to the destination of stdout for 2>&1', () => {
+      const tr = new EventEmitter();
+      RunnerHandler.redirectOutput(tr, [
+        { fd: 1, target: outFile, append: false },
+        { fd: 2, append: false }
+      ]);
+      emit(tr);
+      expect(fs.readFileSync(outFile, 'utf-8')).equals('out\nerr\n');
     });
   });
 
@@ -178,61 +601,35 @@ describe('oc-exec', () => {
     });
   });
 
-  describe('#prepareToolRunner', () => {
-    it('return undefined runer if cmd starts with >', () => {
-      const res = RunnerHandler.prepareToolRunner('> cmd1', 'path');
-      expect(res).equal(undefined);
-    });
-
-    it('return undefined runer if cmd starts with 2', () => {
-      const res = RunnerHandler.prepareToolRunner('2> cmd1', 'path');
-      expect(res).equal(undefined);
-    });
-
-    it('check if pipe is trimmed if it is in first pos', () => {
-      sandbox.stub(tl, 'tool');
-      const prepareCmdArgumentsStub = sandbox
-        .stub(RunnerHandler, 'prepareCmdArguments')
-        .returns(['oc']);
-      RunnerHandler.prepareToolRunner('| cmd1', 'path');
-      sinon.assert.calledWith(prepareCmdArgumentsStub, 'cmd1');
+  describe('#spawnPipeline', () => {
+    it('spawn nothing if a tool of the pipeline cannot be found', () => {
+      const spawnStub = sandbox.stub(OcTimeout, 'spawnProcess');
+      sandbox
+        .stub(tl, 'which')
+        .withArgs('missing', true)
+        .throws(new Error('Unable to locate executable file: missing.'));
+      expect(() =>
+        RunnerHandler.spawnPipeline(
+          pipeline(['oc', 'get', 'pods'], ['missing']),
+          'oc',
+          new EventEmitter()
+        )
+      ).to.throw('Unable to locate executable file: missing.');
+      sinon.assert.notCalled(spawnStub);
     });
+  });
 
-    it('check if tool is called with right params when dealing with oc cli', () => {
-      const toolStub = sandbox.stub(tl, 'tool');
+  describe('#resolveTool', () => {
+    it('check if oc path is used when dealing with oc cli', () => {
       const whichStub = sandbox.stub(tl, 'which');
-      sandbox.stub(RunnerHandler, 'prepareCmdArguments').returns(['oc']);
-      RunnerHandler.prepareToolRunner('| cmd1', 'path');
-      sinon.assert.calledWith(toolStub, 'path');
+      expect(RunnerHandler.resolveTool('oc', 'path')).equals('path');
       sinon.assert.notCalled(whichStub);
     });
 
     it('check if which method is called when dealing with tool different from oc', () => {
-      const toolStub = sandbox.stub(tl, 'tool');
       const whichStub = sandbox.stub(tl, 'which').returns('whichpath');
-      sandbox.stub(RunnerHandler, 'prepareCmdArguments').returns(['cmd']);
-      RunnerHandler.prepareToolRunner('| cmd1', 'path');
+      expect(RunnerHandler.resolveTool('cmd', 'path')).equals('whichpath');
       sinon.assert.calledWith(whichStub, 'cmd', true);
-      sinon.assert.calledWith(toolStub, 'whichpath');
-    });
-  });
-
-  describe('#initToolRunners', () => {
-    it('return empty array if there are no commands', () => {
-      const res = RunnerHandler.initToolRunners([''], 'path');
-      expect(res).deep.equal([]);
-    });
-
-    it('check prepareToolRunner is called n times where n are the commands', () => {
-      const prepareToolRunnerStub = sandbox
-        .stub(RunnerHandler, 'prepareToolRunner')
-        .returns(stubs.tr);
-      const res = RunnerHandler.initToolRunners(
-        ['cmd1', 'cmd2', 'cmd3'],
-        'path'
-      );
-      sinon.assert.calledThrice(prepareToolRunnerStub);
-      expect(res.length).equals(3);
     });
   });
 
@@ -6,12 +6,16 @@ import * as chai from 'chai';
 // import sinon
 import * as sinon from 'sinon';
 import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
 
 import * as validUrl from 'valid-url';
 import { IExecSyncResult } from 'azure-pipelines-task-lib/toolrunner';
 import { InstallHandler } from '../src/oc-install';
 // import * as ocinstall from '../src/oc-install';
 import { RunnerHandler } from '../src/oc-exec';
+import { VersionHandler } from '../src/oc-version';
+import { TOOLS } from '../src/oc-tools';
 import {
   LATEST,
   LINUX,
@@ -21,22 +25,22 @@ import {
   MACOSX
 } from '../src/constants';
 
-import { ToolRunnerStub } from './toolrunnerStub';
 import * as utils from '../src/utils/utils';
+import * as download from '../src/utils/download';
 
 const {expect} = chai;
 import path = require('path');
 
 import tl = require('azure-pipelines-task-lib/task');
+import toolLib = require('azure-pipelines-tool-lib/tool');
+import Zip = require('adm-zip');
 
 describe('InstallHandler', () => {
   let sandbox: sinon.SinonSandbox;
-  let stubs: ToolRunnerStub;
   const testOutDir = `${__dirname}/../out/test/ocInstall`;
 
   beforeEach(() => {
     sandbox = sinon.createSandbox();
-    stubs = new ToolRunnerStub(sandbox);
     process.env.SYSTEM_DEFAULTWORKINGDIRECTORY = testOutDir;
   });
 
@@ -78,6 +82,25 @@ describe('InstallHandler', () => {
       expect(ocBundleStub.calledOnce).to.be.false;
     });
 
+    it('check if local archive is extracted without resolving the version', async () => {
+      sandbox.stub(fs, 'existsSync').returns(true);
+      const ocBundleStub = sandbox.stub(InstallHandler, 'ocBundleURL');
+      const rangeStub = sandbox.stub(VersionHandler, 'resolveVersionRange');
+      const extractStub = sandbox
+        .stub(InstallHandler, 'downloadAndExtract')
+        .resolves('path/oc');
+      const result = await InstallHandler.installOc(
+        'file:///staged/oc.tar.gz',
+        'Linux',
+        false,
+        ''
+      );
+      expect(result).equals('path/oc');
+      expect(extractStub.firstCall.args[0]).equals('file:///staged/oc.tar.gz');
+      expect(ocBundleStub.called).to.be.false;
+      expect(rangeStub.called).to.be.false;
+    });
+
     it('check if task fails if downloadAndExtract doesnt return a valid ocBinary', async () => {
       sandbox.stub(fs, 'existsSync').returns(true);
       sandbox.stub(validUrl, 'isWebUri').returns('path');
@@ -102,6 +125,495 @@ describe('InstallHandler', () => {
       );
       expect(result).equals('path');
     });
+
+    it('check if cached oc is returned without downloading if version is explicit', async () => {
+      sandbox.stub(InstallHandler, 'findCachedTool').returns('cached/oc');
+      const downloadStub = sandbox.stub(InstallHandler, 'downloadAndExtract');
+      const result = await InstallHandler.installOc(
+        'v4.3.0',
+        'Linux',
+        false,
+        ''
+      );
+      expect(result).equals('cached/oc');
+      expect(downloadStub.called).to.be.false;
+    });
+
+    it('check if downloaded oc is cached if version is explicit', async () => {
+      sandbox.stub(fs, 'existsSync').returns(true);
+      sandbox
+        .stub(validUrl, 'isWebUri')
+        .onFirstCall()
+        .returns(undefined)
+        .onSecondCall()
+        .returns('4.3.0');
+      sandbox.stub(InstallHandler, 'findCachedTool').returns(undefined);
+      sandbox.stub(InstallHandler, 'downloadAndExtract').resolves('path/oc');
+      const cacheStub = sandbox
+        .stub(InstallHandler, 'cacheTool')
+        .resolves('cached/oc');
+      const result = await InstallHandler.installOc(
+        '4.3.0',
+        'Linux',
+        false,
+        ''
+      );
+      sinon.assert.calledWith(cacheStub, 'path/oc', 'oc', '4.3.0');
+      expect(result).equals('cached/oc');
+    });
+
+    it('check if oc is cached under the patch release downloaded instead of the requested one', async () => {
+      const server = http.createServer((_req, res) => {
+        res.writeHead(404);
+        res.end();
+      });
+      await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      sandbox
+        .stub(InstallHandler, 'ocBundleURL')
+        .returns(`http://127.0.0.1:${port}/clients/oc/4.8.99/linux/oc.tar.gz`);
+      sandbox
+        .stub(InstallHandler, 'latestPatchURL')
+        .resolves('https://mirror/clients/oc/4.8.57/linux/oc.tar.gz');
+      const findStub = sandbox
+        .stub(InstallHandler, 'findCachedTool')
+        .returns(undefined);
+      sandbox.stub(InstallHandler, 'downloadAndExtract').resolves('path/oc');
+      const cacheStub = sandbox
+        .stub(InstallHandler, 'cacheTool')
+        .resolves('cached/oc');
+      try {
+        await InstallHandler.installOc('4.8.99', 'Linux', false, '');
+      } finally {
+        server.close();
+      }
+      sinon.assert.calledWith(findStub, 'oc', '4.8.57', 'Linux');
+      sinon.assert.calledWith(cacheStub, 'path/oc', 'oc', '4.8.57');
+      sinon.assert.neverCalledWith(cacheStub, 'path/oc', 'oc', '4.8.99');
+    });
+
+    it('check if downloaded oc is not cached if an url is passed', async () => {
+      sandbox.stub(fs, 'existsSync').returns(true);
+      sandbox.stub(InstallHandler, 'downloadAndExtract').resolves('path/oc');
+      const cacheStub = sandbox.stub(InstallHandler, 'cacheTool');
+      const result = await InstallHandler.installOc(
+        'https://mirror/4.3.0/linux/oc.tar.gz',
+        'Linux',
+        false,
+        ''
+      );
+      expect(result).equals('path/oc');
+      expect(cacheStub.called).to.be.false;
+    });
+
+    it('check if version range is resolved before downloading', async () => {
+      sandbox.stub(fs, 'existsSync').returns(true);
+      const resolveStub = sandbox
+        .stub(VersionHandler, 'resolveVersionRange')
+        .resolves('4.6.12');
+      const findStub = sandbox
+        .stub(InstallHandler, 'findCachedTool')
+        .returns('cached/oc');
+      const result = await InstallHandler.installOc('4.6.x', 'Linux', false, '');
+      const ocUtils = InstallHandler.getOcUtils();
+      sinon.assert.calledWith(resolveStub, '4.6.x', [
+        ocUtils.openshiftV3BaseUrl,
+        ocUtils.openshiftV4BaseUrl
+      ]);
+      sinon.assert.calledWith(findStub, 'oc', '4.6.12', 'Linux');
+      expect(result).equals('cached/oc');
+    });
+
+    it('install the release a release channel points to', async () => {
+      const resolveStub = sandbox
+        .stub(VersionHandler, 'resolveChannel')
+        .resolves('4.8.57');
+      const findStub = sandbox
+        .stub(InstallHandler, 'findCachedTool')
+        .returns('cached/oc');
+      const result = await InstallHandler.installOc(
+        'stable-4.8',
+        'Linux',
+        false,
+        ''
+      );
+      sinon.assert.calledWith(
+        resolveStub,
+        'stable-4.8',
+        InstallHandler.getOcUtils().openshiftV4OcpBaseUrl
+      );
+      sinon.assert.calledWith(findStub, 'oc', '4.8.57', 'Linux');
+      expect(result).equals('cached/oc');
+    });
+
+    it('return error if the release channel cannot be resolved', async () => {
+      sandbox.stub(VersionHandler, 'resolveChannel').resolves(null);
+      try {
+        await InstallHandler.installOc('fast-4.99', 'Linux', false, '');
+        expect.fail();
+      } catch (ex) {
+        expect(ex.message).equals(
+          'Unable to resolve oc release channel fast-4.99'
+        );
+      }
+    });
+
+    it('return error if no release matches the version range', async () => {
+      sandbox.stub(VersionHandler, 'resolveVersionRange').resolves(null);
+      try {
+        await InstallHandler.installOc('~4.9', 'Linux', false, '');
+        expect.fail();
+      } catch (ex) {
+        expect(ex.message).equals('Unable to find an oc release matching ~4.9');
+      }
+    });
+  });
+
+  describe('#getOcUtils', () => {
+    afterEach(() => {
+      delete process.env.OPENSHIFT_MIRRORURL;
+    });
+
+    it('return mirror.openshift.com base urls if no mirror is configured', () => {
+      const ocUtils = InstallHandler.getOcUtils();
+      expect(ocUtils.openshiftV4BaseUrl).equals(
+        'https://mirror.openshift.com/pub/openshift-v4/clients/oc'
+      );
+    });
+
+    it('return base urls of the configured mirror', () => {
+      process.env.OPENSHIFT_MIRRORURL = 'https://nexus.example.com/openshift/';
+      const ocUtils = InstallHandler.getOcUtils();
+      expect(ocUtils.openshiftV3BaseUrl).equals(
+        'https://nexus.example.com/openshift/pub/openshift-v3/clients'
+      );
+      expect(ocUtils.openshiftV4BaseUrl).equals(
+        'https://nexus.example.com/openshift/pub/openshift-v4/clients/oc'
+      );
+      expect(ocUtils.openshiftV4OcpBaseUrl).equals(
+        'https://nexus.example.com/openshift/pub/openshift-v4/clients/ocp'
+      );
+      expect(ocUtils.openshiftMirrorUrl).equals(
+        'https://nexus.example.com/openshift'
+      );
+    });
+  });
+
+  describe('#installTools', () => {
+    it('return error if an unsupported tool is requested', async () => {
+      const installStub = sandbox.stub(InstallHandler, 'installTool');
+      try {
+        await InstallHandler.installTools(['helm', 'odo'], 'Linux', '');
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          'Unsupported tools: odo. Supported tools are kubectl, helm, tkn, kn.'
+        );
+      }
+      expect(installStub.called).to.be.false;
+    });
+
+    it('return paths of the installed tools in the requested order', async () => {
+      const installStub = sandbox.stub(InstallHandler, 'installTool');
+      installStub.onFirstCall().resolves('path/kn');
+      installStub.onSecondCall().resolves('path/helm');
+      const result = await InstallHandler.installTools(
+        ['kn', 'helm'],
+        'Linux',
+        'ip:port',
+        'arm64'
+      );
+      expect(result).deep.equals(['path/kn', 'path/helm']);
+      expect(installStub.firstCall.args).deep.equals([
+        TOOLS.kn,
+        'Linux',
+        'ip:port',
+        'arm64'
+      ]);
+      expect(installStub.secondCall.args[0]).equals(TOOLS.helm);
+    });
+
+    it('return no path if no tool is requested', async () => {
+      const result = await InstallHandler.installTools([], 'Linux', '');
+      expect(result).deep.equals([]);
+    });
+  });
+
+  describe('#installTool', () => {
+    const helmUrl = 'https://mirror.openshift.com/pub/openshift-v4/clients/helm';
+
+    beforeEach(() => {
+      sandbox.stub(fs, 'existsSync').returns(true);
+      sandbox.stub(InstallHandler, 'getToolVersion').returns('v3.5.0');
+    });
+
+    it('return error if tool is not published for the architecture', async () => {
+      try {
+        await InstallHandler.installTool(TOOLS.helm, 'Windows_NT', '', 'ppc');
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals('helm is not available for Windows_NT ppc.');
+      }
+    });
+
+    it('return cached tool without downloading', async () => {
+      sandbox.stub(VersionHandler, 'listVersions').resolves(['3.4.1', '3.5.0']);
+      const findStub = sandbox
+        .stub(InstallHandler, 'findCachedTool')
+        .returns('cached/helm');
+      const downloadStub = sandbox.stub(InstallHandler, 'downloadAndExtract');
+      const result = await InstallHandler.installTool(
+        TOOLS.helm,
+        'Linux',
+        '',
+        'amd64'
+      );
+      expect(result).equals('cached/helm');
+      sinon.assert.calledWith(findStub, 'helm', '3.5.0', 'Linux', 'amd64');
+      expect(downloadStub.called).to.be.false;
+    });
+
+    it('download and cache newest release published on the mirror', async () => {
+      sandbox.stub(VersionHandler, 'listVersions').resolves(['3.4.1', '3.5.0']);
+      sandbox.stub(InstallHandler, 'findCachedTool').returns(undefined);
+      const downloadStub = sandbox
+        .stub(InstallHandler, 'downloadAndExtract')
+        .resolves('path/helm');
+      const cacheStub = sandbox
+        .stub(InstallHandler, 'cacheTool')
+        .resolves('cached/helm');
+      const result = await InstallHandler.installTool(
+        TOOLS.helm,
+        'Linux',
+        'ip:port',
+        'arm64'
+      );
+      expect(result).equals('cached/helm');
+      expect(downloadStub.firstCall.args[0]).equals(
+        `${helmUrl}/3.5.0/helm-linux-arm64.tar.gz`
+      );
+      expect(downloadStub.firstCall.args[5]).equals('helm');
+      sinon.assert.calledWith(cacheStub, 'path/helm', 'helm', '3.5.0', 'arm64');
+    });
+
+    it('download latest release without caching if releases cannot be listed', async () => {
+      sandbox.stub(VersionHandler, 'listVersions').resolves([]);
+      const downloadStub = sandbox
+        .stub(InstallHandler, 'downloadAndExtract')
+        .resolves('path/helm');
+      const cacheStub = sandbox.stub(InstallHandler, 'cacheTool');
+      const result = await InstallHandler.installTool(
+        TOOLS.helm,
+        'Darwin',
+        '',
+        'amd64'
+      );
+      expect(result).equals('path/helm');
+      expect(downloadStub.firstCall.args[0]).equals(
+        `${helmUrl}/latest/helm-darwin-amd64.tar.gz`
+      );
+      expect(cacheStub.called).to.be.false;
+    });
+
+    it('return error if tool binary cannot be extracted', async () => {
+      sandbox.stub(VersionHandler, 'listVersions').resolves([]);
+      sandbox.stub(InstallHandler, 'downloadAndExtract').resolves(null);
+      try {
+        await InstallHandler.installTool(TOOLS.kn, 'Linux', '', 'amd64');
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals('Unable to download or extract kn binary.');
+      }
+    });
+  });
+
+  describe('#getToolBundle', () => {
+    it('return bundle name for the architecture', () => {
+      expect(InstallHandler.getToolBundle(TOOLS.tkn, 'Darwin', 'arm64')).equals(
+        'tkn-macos-arm64.tar.gz'
+      );
+    });
+
+    it('return bundle name without architecture suffix for amd64', () => {
+      expect(
+        InstallHandler.getToolBundle(TOOLS.kubectl, 'Linux', 'amd64')
+      ).equals('openshift-client-linux.tar.gz');
+    });
+
+    it('return bundle name with architecture suffix', () => {
+      expect(
+        InstallHandler.getToolBundle(TOOLS.kubectl, 'Linux', 's390x')
+      ).equals('openshift-client-linux-s390x.tar.gz');
+    });
+
+    it('return null if osType is not supported', () => {
+      expect(InstallHandler.getToolBundle(TOOLS.kn, 'SunOS', 'amd64')).to.be
+        .null;
+    });
+  });
+
+  describe('#findBinary', () => {
+    const binaryDir = path.join(testOutDir, 'platformBinary');
+
+    beforeEach(() => {
+      tl.mkdirP(binaryDir);
+      fs.writeFileSync(path.join(binaryDir, 'helm-linux-amd64.tar.gz'), '');
+      fs.writeFileSync(path.join(binaryDir, 'helm-linux-amd64'), '');
+      fs.writeFileSync(path.join(binaryDir, 'helm-windows-amd64.exe'), '');
+    });
+
+    afterEach(() => {
+      tl.rmRF(binaryDir);
+    });
+
+    it('return binary named after the platform', () => {
+      expect(
+        InstallHandler.findBinary(binaryDir, 'helm', 'Linux')
+      ).equals(path.join(binaryDir, 'helm-linux-amd64'));
+    });
+
+    it('return windows executable named after the platform', () => {
+      expect(
+        InstallHandler.findBinary(binaryDir, 'helm', 'Windows_NT')
+      ).equals(path.join(binaryDir, 'helm-windows-amd64.exe'));
+    });
+
+    it('return binary wrapped in a directory', () => {
+      tl.mkdirP(path.join(binaryDir, 'openshift-origin-client-tools'));
+      fs.writeFileSync(
+        path.join(binaryDir, 'openshift-origin-client-tools', 'oc'),
+        ''
+      );
+      expect(InstallHandler.findBinary(binaryDir, 'oc', 'Linux')).equals(
+        path.join(binaryDir, 'openshift-origin-client-tools', 'oc')
+      );
+    });
+
+    it('return undefined if no binary is found', () => {
+      expect(InstallHandler.findBinary(binaryDir, 'kn', 'Linux')).to.be
+        .undefined;
+    });
+
+    it('return undefined if directory does not exist', () => {
+      expect(
+        InstallHandler.findBinary(
+          path.join(binaryDir, 'missing'),
+          'helm',
+          'Linux'
+        )
+      ).to.be.undefined;
+    });
+  });
+
+  describe('#getCacheVersion', () => {
+    it('return cleaned version if version is explicit', () => {
+      expect(InstallHandler.getCacheVersion('v4.3.0')).equals('4.3.0');
+    });
+
+    it('return undefined if version is not explicit', () => {
+      expect(InstallHandler.getCacheVersion('4.3')).to.be.undefined;
+    });
+
+    it('return undefined if version is an url', () => {
+      expect(
+        InstallHandler.getCacheVersion('https://mirror/4.3.0/linux/oc.tar.gz')
+      ).to.be.undefined;
+    });
+
+    it('return undefined if no version is passed', () => {
+      expect(InstallHandler.getCacheVersion('')).to.be.undefined;
+    });
+  });
+
+  describe('#findCachedTool', () => {
+    afterEach(() => {
+      delete process.env.AGENT_TOOLSDIRECTORY;
+    });
+
+    it('return undefined if tool cache is not available', () => {
+      const findStub = sandbox.stub(toolLib, 'findLocalTool');
+      const res = InstallHandler.findCachedTool('oc', '4.3.0', 'Linux');
+      expect(res).to.be.undefined;
+      expect(findStub.called).to.be.false;
+    });
+
+    it('return undefined if version is not cached', () => {
+      process.env.AGENT_TOOLSDIRECTORY = 'tools';
+      sandbox.stub(toolLib, 'findLocalTool').returns('');
+      const res = InstallHandler.findCachedTool('oc', '4.3.0', 'Linux');
+      expect(res).to.be.undefined;
+    });
+
+    it('return path of cached binary for Windows', () => {
+      process.env.AGENT_TOOLSDIRECTORY = 'tools';
+      sandbox.stub(toolLib, 'findLocalTool').returns('tools/oc/4.3.0/x64');
+      sandbox.stub(tl, 'exist').returns(true);
+      const res = InstallHandler.findCachedTool('oc', '4.3.0', 'Windows_NT');
+      expect(res).equals(path.join('tools/oc/4.3.0/x64', 'oc.exe'));
+    });
+
+    it('return undefined if the archive of the cached binary has not been verified', () => {
+      process.env.AGENT_TOOLSDIRECTORY = 'tools';
+      sandbox.stub(toolLib, 'findLocalTool').returns('tools/oc/4.3.0/x64');
+      sandbox.stub(tl, 'exist').returns(true);
+      const verifiedStub = sandbox
+        .stub(InstallHandler, 'hasVerifiedChecksum')
+        .returns(false);
+      const res = InstallHandler.findCachedTool(
+        'oc',
+        '4.3.0',
+        'Linux',
+        'amd64',
+        'digest'
+      );
+      expect(res).to.be.undefined;
+      sinon.assert.calledWith(
+        verifiedStub,
+        path.join('tools/oc/4.3.0/x64', 'oc'),
+        'digest'
+      );
+    });
+  });
+
+  describe('#cacheTool', () => {
+    afterEach(() => {
+      delete process.env.AGENT_TOOLSDIRECTORY;
+    });
+
+    it('return passed binary if tool cache is not available', async () => {
+      const cacheStub = sandbox.stub(toolLib, 'cacheFile');
+      const res = await InstallHandler.cacheTool('path/oc', 'oc', '4.3.0');
+      expect(res).equals('path/oc');
+      expect(cacheStub.called).to.be.false;
+    });
+
+    it('return path of binary in tool cache', async () => {
+      process.env.AGENT_TOOLSDIRECTORY = 'tools';
+      const cacheStub = sandbox
+        .stub(toolLib, 'cacheFile')
+        .resolves('tools/oc/4.3.0/x64');
+      sandbox.stub(fs, 'chmodSync');
+      const res = await InstallHandler.cacheTool('path/oc', 'oc', '4.3.0');
+      sinon.assert.calledWith(cacheStub, 'path/oc', 'oc', 'oc', '4.3.0');
+      expect(res).equals(path.join('tools/oc/4.3.0/x64', 'oc'));
+    });
+
+    it('copy the digest of a verified archive into the tool cache', async () => {
+      process.env.AGENT_TOOLSDIRECTORY = 'tools';
+      sandbox.stub(toolLib, 'cacheFile').resolves('tools/oc/4.3.0/x64');
+      sandbox.stub(fs, 'chmodSync');
+      sandbox
+        .stub(tl, 'exist')
+        .withArgs('path/oc.sha256')
+        .returns(true);
+      const copyStub = sandbox.stub(fs, 'copyFileSync');
+      await InstallHandler.cacheTool('path/oc', 'oc', '4.3.0');
+      sinon.assert.calledWith(
+        copyStub,
+        'path/oc.sha256',
+        path.join('tools/oc/4.3.0/x64', 'oc.sha256')
+      );
+    });
   });
 
   describe('#latestStable', () => {
@@ -119,6 +631,13 @@ describe('InstallHandler', () => {
         `${ocUtils.openshiftV4BaseUrl}/${LATEST}/linux/oc.tar.gz`
       );
     });
+
+    it('return the url of the ocp client directory for architectures other than amd64', () => {
+      const res = InstallHandler.latestStable('Linux', 's390x');
+      expect(res).equals(
+        `https://mirror.openshift.com/pub/openshift-v4/clients/ocp/${LATEST}/openshift-client-linux-s390x.tar.gz`
+      );
+    });
   });
 
   describe('#ocBundleURL', () => {
@@ -157,6 +676,23 @@ describe('InstallHandler', () => {
       expect(res).equals(url);
     });
 
+    it('should return correct url if oc version (v = 4) is requested for arm64', () => {
+      const version = '4.9.0';
+      const ocUtils = InstallHandler.getOcUtils();
+      const res = InstallHandler.ocBundleURL(version, 'Linux', false, 'arm64');
+      expect(res).equals(
+        `${ocUtils.openshiftV4OcpBaseUrl}/${version}/openshift-client-linux-arm64.tar.gz`
+      );
+      expect(res).equals(
+        `https://mirror.openshift.com/pub/openshift-v4/clients/ocp/${version}/openshift-client-linux-arm64.tar.gz`
+      );
+    });
+
+    it('should return null if oc version (v = 3) is requested for arm64', () => {
+      const res = InstallHandler.ocBundleURL('3.11.0', 'Linux', false, 'arm64');
+      expect(res).equals(null);
+    });
+
     it('should return null if oc version requested is different from the versions supported (3 and 4)', () => {
       const version = '5.1.0';
       const res = InstallHandler.ocBundleURL(version, 'Linux');
@@ -183,7 +719,61 @@ describe('InstallHandler', () => {
     });
   });
 
+  describe('#getLocalArchivePath', () => {
+    it('return path of file uri', () => {
+      expect(
+        InstallHandler.getLocalArchivePath('file:///agent/_work/oc.tar.gz')
+      ).equals(path.resolve('/agent/_work/oc.tar.gz'));
+    });
+
+    it('return absolute path of archive path', () => {
+      expect(InstallHandler.getLocalArchivePath('/staged/oc.zip')).equals(
+        path.resolve('/staged/oc.zip')
+      );
+      expect(InstallHandler.getLocalArchivePath('tools/oc.tgz')).equals(
+        path.resolve('tools/oc.tgz')
+      );
+    });
+
+    it('return null for versions and web urls', () => {
+      expect(InstallHandler.getLocalArchivePath('4.6.1')).to.be.null;
+      expect(InstallHandler.getLocalArchivePath('')).to.be.null;
+      expect(
+        InstallHandler.getLocalArchivePath(
+          'https://mirror.openshift.com/pub/openshift-v4/clients/oc/4.6/linux/oc.tar.gz'
+        )
+      ).to.be.null;
+    });
+  });
+
   describe('#downloadAndExtract', () => {
+    const downloadDir = path.join(testOutDir, 'downloadAndExtract');
+    const url = 'https://mirror/pub/openshift-v4/clients/oc/4.6.12/linux/oc.zip';
+    const versionDir = path.join(
+      downloadDir,
+      InstallHandler.getVersionDirName(url, 'oc')
+    );
+    const fixture = path.join(
+      __dirname,
+      'fixtures',
+      'openshift-origin-client-tools-v3.11.0-0cbc58b-windows.zip'
+    );
+
+    const writeZip = (zipPath: string, entries: string[]): void => {
+      const zip = new Zip();
+      entries.forEach(entry => zip.addFile(entry, Buffer.from('binary')));
+      zip.writeZip(zipPath);
+    };
+
+    beforeEach(() => {
+      tl.mkdirP(downloadDir);
+      sandbox.stub(InstallHandler, 'verifyChecksum').resolves();
+    });
+
+    afterEach(() => {
+      tl.rmRF(downloadDir);
+    });
+
     it('return null if url is not valid', async () => {
       const res = await InstallHandler.downloadAndExtract(
         '',
@@ -195,122 +785,587 @@ describe('InstallHandler', () => {
     });
 
     it('throw error if download dir no exists', async () => {
-      const normalizeStub = sandbox.stub(path, 'normalize').returns('path');
-      sandbox.stub(tl, 'exist').returns(false);
+      const missingDir = path.join(downloadDir, 'missing');
       try {
         await InstallHandler.downloadAndExtract(
-          'url',
-          'path',
+          url,
+          missingDir,
           'Linux',
           'ip:port'
         );
-        normalizeStub.calledOnce;
         expect.fail();
       } catch (err) {
-        expect(err.message).equals('path does not exist.');
+        expect(err.message).equals(`${missingDir} does not exist.`);
       }
     });
 
-    it('curl is called if archive path no exists', async () => {
-      sandbox.stub(path, 'normalize').returns('path');
-      sandbox
-        .stub(tl, 'exist')
-        .onFirstCall()
-        .returns(true)
-        .onSecondCall()
-        .returns(false);
-      const toolStub = sandbox.stub(tl, 'tool').returns(stubs.tr);
-      try {
-        await InstallHandler.downloadAndExtract('url', 'path', 'Linux', '');
-      } catch (ex) {}
-      sinon.assert.calledWith(toolStub, 'curl');
-      expect(stubs.args.length).equals(5);
+    it('downloadFile is called with proxy if archive is not downloaded yet', async () => {
+      const downloadStub = sandbox
+        .stub(download, 'downloadFile')
+        .callsFake(async (_url: string, archivePath: string) =>
+          writeZip(archivePath, ['oc', 'README.md'])
+        );
+      const res = await InstallHandler.downloadAndExtract(
+        url,
+        downloadDir,
+        'Linux',
+        'ip:port'
+      );
+      sinon.assert.calledWith(
+        downloadStub,
+        url,
+        path.join(versionDir, 'oc.zip'),
+        { proxy: 'ip:port', headers: {} }
+      );
+      expect(res).equals(path.join(versionDir, 'oc'));
+      expect(fs.statSync(res).mode & 0o755).equals(0o755);
     });
 
-    it('curl is called with -x arg if proxy is valid', async () => {
-      sandbox.stub(path, 'normalize').returns('path');
-      sandbox
-        .stub(tl, 'exist')
-        .onFirstCall()
-        .returns(true)
-        .onSecondCall()
-        .returns(false);
-      sandbox.stub(tl, 'tool').returns(stubs.tr);
+    it('downloadFile is not called if archive path exists', async () => {
+      tl.mkdirP(versionDir);
+      writeZip(path.join(versionDir, 'oc.zip'), ['oc']);
+      const downloadStub = sandbox.stub(download, 'downloadFile');
+      const res = await InstallHandler.downloadAndExtract(
+        url,
+        downloadDir,
+        'Linux',
+        ''
+      );
+      expect(res).equals(path.join(versionDir, 'oc'));
+      expect(downloadStub.called).to.be.false;
+    });
+
+    it('return binary extracted by a previous run without downloading', async () => {
+      tl.mkdirP(versionDir);
+      fs.writeFileSync(path.join(versionDir, 'oc'), 'binary');
+      const downloadStub = sandbox.stub(download, 'downloadFile');
+      const unzipStub = sandbox.stub(utils, 'unzipArchive');
+      const res = await InstallHandler.downloadAndExtract(
+        url,
+        downloadDir,
+        'Linux',
+        ''
+      );
+      expect(res).equals(path.join(versionDir, 'oc'));
+      expect(downloadStub.called).to.be.false;
+      expect(unzipStub.called).to.be.false;
+    });
+
+    it('verify archive of binary extracted by a previous run if a checksum is given', async () => {
+      tl.mkdirP(versionDir);
+      writeZip(path.join(versionDir, 'oc.zip'), ['oc']);
+      fs.writeFileSync(path.join(versionDir, 'oc'), 'stale');
+      (InstallHandler.verifyChecksum as sinon.SinonStub).rejects(
+        new Error('SHA-256 checksum mismatch')
+      );
       try {
         await InstallHandler.downloadAndExtract(
-          'url',
-          'path',
+          url,
+          downloadDir,
           'Linux',
-          'ip:port'
+          '',
+          'deadbeef'
         );
-      } catch (ex) {}
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals('SHA-256 checksum mismatch');
+      }
+      expect(fs.existsSync(path.join(versionDir, 'oc'))).to.be.false;
+    });
 
-      expect(stubs.args.length).equals(7);
+    it('reuse binary extracted by a previous run if its archive matched the checksum', async () => {
+      tl.mkdirP(versionDir);
+      fs.writeFileSync(path.join(versionDir, 'oc'), 'binary');
+      fs.writeFileSync(path.join(versionDir, 'oc.sha256'), 'digest');
+      const downloadStub = sandbox.stub(download, 'downloadFile');
+      const res = await InstallHandler.downloadAndExtract(
+        url,
+        downloadDir,
+        'Linux',
+        '',
+        'DIGEST'
+      );
+      expect(res).equals(path.join(versionDir, 'oc'));
+      expect(downloadStub.called).to.be.false;
+      expect((InstallHandler.verifyChecksum as sinon.SinonStub).called).to.be
+        .false;
+    });
+
+    it('record the digest of a verified archive next to the binary', async () => {
+      sandbox
+        .stub(download, 'downloadFile')
+        .callsFake(async (_url: string, archivePath: string) =>
+          writeZip(archivePath, ['oc'])
+        );
+      (InstallHandler.verifyChecksum as sinon.SinonStub).resolves('digest');
+      const res = await InstallHandler.downloadAndExtract(
+        url,
+        downloadDir,
+        'Linux',
+        ''
+      );
+      expect(fs.readFileSync(`${res}.sha256`, 'utf-8')).equals('digest');
+    });
+
+    it('download latest release again although extracted by a previous run', async () => {
+      const latestUrl = url.replace('4.6.12', 'latest');
+      const latestDir = path.join(
+        downloadDir,
+        InstallHandler.getVersionDirName(latestUrl, 'oc')
+      );
+      tl.mkdirP(latestDir);
+      writeZip(path.join(latestDir, 'oc.zip'), ['oc']);
+      fs.writeFileSync(path.join(latestDir, 'oc'), 'stale');
+      const downloadStub = sandbox
+        .stub(download, 'downloadFile')
+        .callsFake(async (_url: string, archivePath: string) =>
+          writeZip(archivePath, ['oc'])
+        );
+      const res = await InstallHandler.downloadAndExtract(
+        latestUrl,
+        downloadDir,
+        'Linux',
+        ''
+      );
+      sinon.assert.calledOnce(downloadStub);
+      expect(fs.readFileSync(res, 'utf-8')).equals('binary');
+    });
+
+    it('extract different versions into separate directories', async () => {
+      sandbox
+        .stub(download, 'downloadFile')
+        .callsFake(async (_url: string, archivePath: string) =>
+          writeZip(archivePath, ['oc'])
+        );
+      const otherUrl = url.replace('4.6.12', '4.7.1');
+      const res = await InstallHandler.downloadAndExtract(
+        url,
+        downloadDir,
+        'Linux',
+        ''
+      );
+      const otherRes = await InstallHandler.downloadAndExtract(
+        otherUrl,
+        downloadDir,
+        'Linux',
+        ''
+      );
+      expect(path.basename(path.dirname(res))).to.match(/^oc-4\.6\.12-/);
+      expect(path.basename(path.dirname(otherRes))).to.match(/^oc-4\.7\.1-/);
+      expect(fs.existsSync(res)).to.be.true;
+      expect(fs.existsSync(otherRes)).to.be.true;
     });
 
     it('null if oc path no exists', async () => {
-      sandbox.stub(path, 'normalize').returns('path');
       sandbox
-        .stub(tl, 'exist')
-        .onFirstCall()
-        .returns(true)
-        .onSecondCall()
-        .returns(true)
-        .onThirdCall()
-        .returns(false);
-      sandbox.stub(utils, 'unzipArchive');
+        .stub(download, 'downloadFile')
+        .callsFake(async (_url: string, archivePath: string) =>
+          writeZip(archivePath, ['README.md'])
+        );
       const res = await InstallHandler.downloadAndExtract(
-        'url',
-        'path',
+        url,
+        downloadDir,
         'Linux',
         'ip:port'
       );
       expect(res).equals(null);
+      expect(fs.readdirSync(versionDir)).deep.equals(['oc.zip']);
+      expect(fs.existsSync(`${versionDir}.lock`)).to.be.false;
     });
 
     it('check if correct oc path for Windows', async () => {
-      sandbox.stub(path, 'normalize').returns('path');
       sandbox
-        .stub(tl, 'exist')
-        .onFirstCall()
-        .returns(true)
-        .onSecondCall()
-        .returns(true)
-        .onThirdCall()
-        .returns(true);
-      sandbox.stub(utils, 'unzipArchive');
-      sandbox.stub(path, 'join').returns('path/oc.exe');
-      sandbox.stub(fs, 'chmodSync');
+        .stub(download, 'downloadFile')
+        .callsFake(async (_url: string, archivePath: string) =>
+          writeZip(archivePath, ['oc.exe'])
+        );
+      const windowsUrl = url.replace('linux', 'windows');
       const res = await InstallHandler.downloadAndExtract(
-        'url',
-        'path',
+        windowsUrl,
+        downloadDir,
         'Windows_NT',
         'ip:port'
       );
-      expect(res).equals('path/oc.exe');
+      expect(res).equals(
+        path.join(
+          downloadDir,
+          InstallHandler.getVersionDirName(windowsUrl, 'oc'),
+          'oc.exe'
+        )
+      );
     });
 
-    it('check if correct oc path for Linux/Mac', async () => {
-      sandbox.stub(path, 'normalize').returns('path');
-      sandbox
-        .stub(tl, 'exist')
-        .onFirstCall()
-        .returns(true)
-        .onSecondCall()
-        .returns(true)
-        .onThirdCall()
-        .returns(true);
-      sandbox.stub(utils, 'unzipArchive');
-      sandbox.stub(path, 'join').returns('path/oc');
-      const chmod = sandbox.stub(fs, 'chmodSync');
+    it('extract archive path without downloading', async () => {
+      const downloadStub = sandbox.stub(download, 'downloadFile');
       const res = await InstallHandler.downloadAndExtract(
-        'url',
-        'path',
+        fixture,
+        downloadDir,
+        'Windows_NT',
+        ''
+      );
+      expect(res).equals(
+        path.join(
+          downloadDir,
+          InstallHandler.getVersionDirName(
+            fixture,
+            'oc',
+            await utils.sha256(fixture)
+          ),
+          'oc.exe'
+        )
+      );
+      expect(fs.existsSync(res)).to.be.true;
+      expect(downloadStub.called).to.be.false;
+      expect((InstallHandler.verifyChecksum as sinon.SinonStub).called).to.be
+        .false;
+    });
+
+    it('extract a new archive replacing a local archive at the same path', async () => {
+      // secure files are always downloaded to the same path
+      const archivePath = path.join(downloadDir, 'secure', 'oc.zip');
+      tl.mkdirP(path.dirname(archivePath));
+      const writeRelease = (content: string): void => {
+        const zip = new Zip();
+        zip.addFile('oc', Buffer.from(content));
+        zip.writeZip(archivePath);
+      };
+      writeRelease('v1');
+      const first = await InstallHandler.downloadAndExtract(
+        archivePath,
+        downloadDir,
         'Linux',
-        'ip:port'
+        ''
+      );
+      writeRelease('v2');
+      const second = await InstallHandler.downloadAndExtract(
+        archivePath,
+        downloadDir,
+        'Linux',
+        ''
+      );
+      expect(second).not.equals(first);
+      expect(fs.readFileSync(first, 'utf-8')).equals('v1');
+      expect(fs.readFileSync(second, 'utf-8')).equals('v2');
+    });
+
+    it('extract archive referenced by file uri', async () => {
+      const res = await InstallHandler.downloadAndExtract(
+        `file://${fixture}`,
+        downloadDir,
+        'Windows_NT',
+        ''
+      );
+      expect(path.basename(res)).equals('oc.exe');
+      expect(fs.existsSync(res)).to.be.true;
+    });
+
+    it('verify explicit checksum of local archive', async () => {
+      await InstallHandler.downloadAndExtract(
+        fixture,
+        downloadDir,
+        'Windows_NT',
+        '',
+        'digest'
+      );
+      sinon.assert.calledWith(
+        InstallHandler.verifyChecksum as sinon.SinonStub,
+        fixture,
+        fixture,
+        'digest'
+      );
+    });
+
+    it('throw error if checksum is required but not specified for local archive', async () => {
+      sandbox.stub(InstallHandler, 'isChecksumRequired').returns(true);
+      try {
+        await InstallHandler.downloadAndExtract(
+          fixture,
+          downloadDir,
+          'Windows_NT',
+          ''
+        );
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          `No SHA-256 checksum specified for ${fixture}. A checksum is required to install a local archive.`
+        );
+      }
+    });
+
+    it('throw error if local archive does not exist', async () => {
+      try {
+        await InstallHandler.downloadAndExtract(
+          '/missing/oc.tar.gz',
+          downloadDir,
+          'Linux',
+          ''
+        );
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          `${path.resolve('/missing/oc.tar.gz')} does not exist.`
+        );
+      }
+    });
+  });
+
+  describe('#getVersionDirName', () => {
+    it('return directory name containing the version', () => {
+      expect(
+        InstallHandler.getVersionDirName(
+          'https://mirror/pub/openshift-v4/clients/oc/4.6.12/linux/oc.tar.gz',
+          'oc'
+        )
+      ).to.match(/^oc-4\.6\.12-[0-9a-f]{8}$/);
+    });
+
+    it('return directory name without version if url contains none', () => {
+      expect(
+        InstallHandler.getVersionDirName('/staged/oc.tar.gz', 'oc')
+      ).to.match(/^oc-[0-9a-f]{8}$/);
+    });
+
+    it('return directory name based on the digest of a local archive', () => {
+      const digest =
+        '1a2b3c4d98fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+      expect(
+        InstallHandler.getVersionDirName('/staged/oc.tar.gz', 'oc', digest)
+      ).equals('oc-1a2b3c4d');
+    });
+
+    it('return different names for different urls of the same version', () => {
+      expect(
+        InstallHandler.getVersionDirName(
+          'https://mirror/pub/openshift-v4/clients/oc/4.6.12/linux/oc.tar.gz',
+          'oc'
+        )
+      ).not.equals(
+        InstallHandler.getVersionDirName(
+          'https://mirror/pub/openshift-v4/clients/oc/4.6.12/macosx/oc.tar.gz',
+          'oc'
+        )
+      );
+    });
+  });
+
+  describe('#pruneDownloads', () => {
+    const downloadDir = path.join(testOutDir, 'prune');
+    const old = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+
+    const createEntry = (name: string, mtime?: Date): string => {
+      const entryPath = path.join(downloadDir, name);
+      tl.mkdirP(entryPath);
+      if (mtime) {
+        fs.utimesSync(entryPath, mtime, mtime);
+      }
+      return entryPath;
+    };
+
+    beforeEach(() => {
+      tl.mkdirP(downloadDir);
+    });
+
+    afterEach(() => {
+      tl.rmRF(downloadDir);
+      delete process.env.OPENSHIFT_DOWNLOADRETENTIONDAYS;
+    });
+
+    it('remove downloads not used within the retention period', () => {
+      const oldEntry = createEntry('oc-4.5.1-11111111', old);
+      const recentEntry = createEntry('oc-4.6.12-22222222');
+      InstallHandler.pruneDownloads(downloadDir);
+      expect(fs.existsSync(oldEntry)).to.be.false;
+      expect(fs.existsSync(`${oldEntry}.lock`)).to.be.false;
+      expect(fs.existsSync(recentEntry)).to.be.true;
+    });
+
+    it('keep downloads locked by another job', () => {
+      const lockedEntry = createEntry('oc-4.5.1-11111111', old);
+      fs.writeFileSync(`${lockedEntry}.lock`, '1');
+      InstallHandler.pruneDownloads(downloadDir);
+      expect(fs.existsSync(lockedEntry)).to.be.true;
+    });
+
+    it('use configured retention period', () => {
+      process.env.OPENSHIFT_DOWNLOADRETENTIONDAYS = '30';
+      const oldEntry = createEntry('oc-4.5.1-11111111', old);
+      InstallHandler.pruneDownloads(downloadDir);
+      expect(fs.existsSync(oldEntry)).to.be.true;
+    });
+
+    it('keep all downloads if pruning is disabled', () => {
+      process.env.OPENSHIFT_DOWNLOADRETENTIONDAYS = '0';
+      const oldEntry = createEntry('oc-4.5.1-11111111', old);
+      InstallHandler.pruneDownloads(downloadDir);
+      expect(fs.existsSync(oldEntry)).to.be.true;
+    });
+  });
+
+  describe('#hasVerifiedChecksum', () => {
+    const binaryDir = path.join(testOutDir, 'hasVerifiedChecksum');
+    const binary = path.join(binaryDir, 'oc');
+
+    beforeEach(() => {
+      tl.mkdirP(binaryDir);
+      fs.writeFileSync(binary, 'binary');
+    });
+
+    afterEach(() => {
+      tl.rmRF(binaryDir);
+    });
+
+    it('check if binary is accepted if no checksum is requested', () => {
+      expect(InstallHandler.hasVerifiedChecksum(binary)).to.be.true;
+    });
+
+    it('check if recorded digest has to match the checksum', () => {
+      fs.writeFileSync(`${binary}.sha256`, 'digest');
+      expect(InstallHandler.hasVerifiedChecksum(binary, 'Digest ')).to.be.true;
+      expect(InstallHandler.hasVerifiedChecksum(binary, 'deadbeef')).to.be
+        .false;
+    });
+
+    it('check if a digest has to be recorded if a checksum is required', () => {
+      sandbox.stub(InstallHandler, 'isChecksumRequired').returns(true);
+      expect(InstallHandler.hasVerifiedChecksum(binary)).to.be.false;
+      fs.writeFileSync(`${binary}.sha256`, 'digest');
+      expect(InstallHandler.hasVerifiedChecksum(binary)).to.be.true;
+    });
+  });
+
+  describe('#verifyChecksum', () => {
+    const digest =
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+    it('check if archive is accepted if digest matches the expected one', async () => {
+      sandbox.stub(utils, 'sha256').resolves(digest);
+      const rmStub = sandbox.stub(tl, 'rmRF');
+      const res = await InstallHandler.verifyChecksum(
+        'path',
+        'url',
+        digest.toUpperCase()
+      );
+      expect(res).equals(digest);
+      expect(rmStub.called).to.be.false;
+    });
+
+    it('check if archive is deleted and error thrown if digest does not match', async () => {
+      sandbox.stub(utils, 'sha256').resolves('1234');
+      const rmStub = sandbox.stub(tl, 'rmRF');
+      try {
+        await InstallHandler.verifyChecksum('path', 'url', digest);
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          `SHA-256 checksum mismatch for url: expected ${digest} but got 1234. The downloaded archive has been deleted.`
+        );
+      }
+      sinon.assert.calledWith(rmStub, 'path');
+    });
+
+    it('check if mirror checksum is used if no digest is passed', async () => {
+      const mirrorStub = sandbox
+        .stub(InstallHandler, 'getMirrorChecksum')
+        .resolves(digest);
+      sandbox.stub(utils, 'sha256').resolves(digest);
+      await InstallHandler.verifyChecksum('path', 'url');
+      sinon.assert.calledWith(mirrorStub, 'url');
+    });
+
+    it('check if verification is skipped if no checksum can be found', async () => {
+      sandbox.stub(InstallHandler, 'getMirrorChecksum').resolves(undefined);
+      const sha256Stub = sandbox.stub(utils, 'sha256');
+      const warningStub = sandbox.stub(tl, 'warning');
+      const rmStub = sandbox.stub(tl, 'rmRF');
+      await InstallHandler.verifyChecksum('path', 'url');
+      expect(sha256Stub.called).to.be.false;
+      expect(rmStub.called).to.be.false;
+      sinon.assert.calledWith(
+        warningStub,
+        'Unable to find a SHA-256 checksum for url. Integrity of the archive has not been verified.'
+      );
+    });
+
+    it('check if archive is deleted and error thrown if no checksum can be found but one is required', async () => {
+      sandbox.stub(InstallHandler, 'getMirrorChecksum').resolves(undefined);
+      sandbox
+        .stub(tl, 'getBoolInput')
+        .withArgs('requireChecksum')
+        .returns(true);
+      const rmStub = sandbox.stub(tl, 'rmRF');
+      try {
+        await InstallHandler.verifyChecksum('path', 'url');
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          'Unable to find a SHA-256 checksum for url. A checksum is required, the downloaded archive has been deleted.'
+        );
+      }
+      sinon.assert.calledWith(rmStub, 'path');
+    });
+  });
+
+  describe('#isChecksumRequired', () => {
+    it('check if checksum is not required by default', () => {
+      expect(InstallHandler.isChecksumRequired()).to.be.false;
+    });
+
+    it('check if checksum is required by the task input', () => {
+      sandbox
+        .stub(tl, 'getBoolInput')
+        .withArgs('requireChecksum')
+        .returns(true);
+      expect(InstallHandler.isChecksumRequired()).to.be.true;
+    });
+
+    it('check if checksum is required by the agent variable', () => {
+      sandbox
+        .stub(tl, 'getVariable')
+        .withArgs('OpenShift.RequireChecksum')
+        .returns('True');
+      expect(InstallHandler.isChecksumRequired()).to.be.true;
+    });
+  });
+
+  describe('#parseChecksums', () => {
+    const sums =
+      'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa  linux/oc.tar.gz\n' +
+      'BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB *windows/oc.zip\n';
+
+    it('return digest of the listed file', () => {
+      const res = InstallHandler.parseChecksums(sums, 'linux/oc.tar.gz');
+      expect(res).equals('a'.repeat(64));
+    });
+
+    it('return lower case digest of file listed in binary mode', () => {
+      const res = InstallHandler.parseChecksums(sums, 'windows/oc.zip');
+      expect(res).equals('b'.repeat(64));
+    });
+
+    it('return undefined if file is not listed', () => {
+      const res = InstallHandler.parseChecksums(sums, 'macosx/oc.tar.gz');
+      expect(res).to.be.undefined;
+    });
+  });
+
+  describe('#latestPatchURL', () => {
+    it('return url of latest patch release discovered on the mirror', async () => {
+      sandbox.stub(VersionHandler, 'latestPatch').resolves('4.9.11');
+      const bundleStub = sandbox
+        .stub(InstallHandler, 'ocBundleURL')
+        .returns('url');
+      const res = await InstallHandler.latestPatchURL('4.9', 'Linux');
+      sinon.assert.calledWith(bundleStub, '4.9.11', 'Linux');
+      expect(res).equals('url');
+    });
+
+    it('fall back to oc-utils.json if latest patch cannot be discovered', async () => {
+      sandbox.stub(VersionHandler, 'latestPatch').resolves(null);
+      const res = await InstallHandler.latestPatchURL('3.11', 'Linux');
+      const ocUtils = InstallHandler.getOcUtils();
+      expect(res).equals(
+        `${ocUtils.openshiftV3BaseUrl}/${ocUtils['oc3.11']}/linux/oc.tar.gz`
       );
-      expect(res).equals('path/oc');
-      sinon.assert.calledWith(chmod, 'path/oc', '0755');
     });
   });
 
@@ -334,6 +1389,52 @@ describe('InstallHandler', () => {
       const res = InstallHandler.getOcBundleByOS('fakeOS');
       expect(res).equals(null);
     });
+
+    it('return correct value if osType is linux and arch is amd64', () => {
+      const res = InstallHandler.getOcBundleByOS('Linux', 'amd64');
+      expect(res).equals(`${LINUX}/${OC_TAR_GZ}`);
+    });
+
+    it('return correct value if osType is linux and arch is arm64', () => {
+      const res = InstallHandler.getOcBundleByOS('Linux', 'arm64');
+      expect(res).equals('openshift-client-linux-arm64.tar.gz');
+    });
+
+    it('return correct value if osType is linux and arch is s390x', () => {
+      const res = InstallHandler.getOcBundleByOS('Linux', 's390x');
+      expect(res).equals('openshift-client-linux-s390x.tar.gz');
+    });
+
+    it('return correct value if osType is MACOSX and arch is arm64', () => {
+      const res = InstallHandler.getOcBundleByOS('Darwin', 'arm64');
+      expect(res).equals('openshift-client-mac-arm64.tar.gz');
+    });
+
+    it('return null if no bundle is published for osType and arch', () => {
+      expect(InstallHandler.getOcBundleByOS('Windows_NT', 'arm64')).equals(
+        null
+      );
+      expect(InstallHandler.getOcBundleByOS('Darwin', 'ppc64le')).equals(null);
+    });
+  });
+
+  describe('#getOcArch', () => {
+    it('return requested architecture', () => {
+      expect(InstallHandler.getOcArch('arm64')).equals('arm64');
+      expect(InstallHandler.getOcArch('S390X')).equals('s390x');
+    });
+
+    it('return mirror name of node architectures', () => {
+      expect(InstallHandler.getOcArch('x64')).equals('amd64');
+      expect(InstallHandler.getOcArch('ppc64')).equals('ppc64le');
+      expect(InstallHandler.getOcArch('aarch64')).equals('arm64');
+    });
+
+    it('return agent architecture if no architecture or auto is requested', () => {
+      sandbox.stub(process, 'arch').value('arm64');
+      expect(InstallHandler.getOcArch()).equals('arm64');
+      expect(InstallHandler.getOcArch('auto')).equals('arm64');
+    });
   });
 
   describe('#addOcToPath', () => {
@@ -410,6 +1511,20 @@ describe('InstallHandler', () => {
       const res = InstallHandler.getLocalOcPath('1.1');
       expect(res).equals(undefined);
     });
+
+    it('returns path if version found locally satisfies the version range', () => {
+      sandbox.stub(tl, 'which').returns('path');
+      sandbox.stub(InstallHandler, 'getOcVersion').returns('v4.6.3');
+      const res = InstallHandler.getLocalOcPath('4.6.x');
+      expect(res).equals('path');
+    });
+
+    it('returns nothing if version found locally does not satisfy the version range', () => {
+      sandbox.stub(tl, 'which').returns('path');
+      sandbox.stub(InstallHandler, 'getOcVersion').returns('v4.7.0');
+      const res = InstallHandler.getLocalOcPath('4.6.x');
+      expect(res).equals(undefined);
+    });
   });
 
   describe('#getOcVersion', () => {
@@ -0,0 +1,104 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import { getMirrorConfiguration, getMirrorHeaders } from '../src/oc-mirror';
+
+import tl = require('azure-pipelines-task-lib/task');
+
+const { expect } = chai;
+
+describe('oc-mirror', () => {
+  let sandbox: sinon.SinonSandbox;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    delete process.env.OPENSHIFT_MIRRORURL;
+    delete process.env.OPENSHIFT_MIRRORTOKEN;
+  });
+
+  describe('#getMirrorConfiguration', () => {
+    it('return undefined if no mirror is configured', () => {
+      expect(getMirrorConfiguration()).to.be.undefined;
+    });
+
+    it('return mirror configured by task inputs', () => {
+      const inputStub = sandbox.stub(tl, 'getInput');
+      inputStub.withArgs('mirrorUrl').returns('https://nexus/openshift/');
+      inputStub.withArgs('mirrorUsername').returns('user');
+      inputStub.withArgs('mirrorPassword').returns('pass');
+      const secretStub = sandbox.stub(tl, 'setSecret');
+      expect(getMirrorConfiguration()).deep.equals({
+        url: 'https://nexus/openshift',
+        username: 'user',
+        password: 'pass',
+        token: undefined
+      });
+      sinon.assert.calledWith(secretStub, 'pass');
+    });
+
+    it('return mirror configured by agent variables', () => {
+      process.env.OPENSHIFT_MIRRORURL = 'https://nexus/openshift';
+      process.env.OPENSHIFT_MIRRORTOKEN = 'token';
+      sandbox.stub(tl, 'setSecret');
+      const mirror = getMirrorConfiguration();
+      expect(mirror.url).equals('https://nexus/openshift');
+      expect(mirror.token).equals('token');
+    });
+
+    it('prefer task input over agent variable', () => {
+      process.env.OPENSHIFT_MIRRORURL = 'https://nexus/openshift';
+      sandbox
+        .stub(tl, 'getInput')
+        .withArgs('mirrorUrl')
+        .returns('https://artifactory/openshift');
+      expect(getMirrorConfiguration().url).equals(
+        'https://artifactory/openshift'
+      );
+    });
+  });
+
+  describe('#getMirrorHeaders', () => {
+    it('return no headers if no mirror is configured', () => {
+      expect(getMirrorHeaders('https://mirror.openshift.com/pub')).deep.equals(
+        {}
+      );
+    });
+
+    it('return bearer token for urls of the mirror', () => {
+      process.env.OPENSHIFT_MIRRORURL = 'https://nexus/openshift';
+      process.env.OPENSHIFT_MIRRORTOKEN = 'token';
+      sandbox.stub(tl, 'setSecret');
+      expect(getMirrorHeaders('https://nexus/openshift/pub/oc')).deep.equals({
+        Authorization: 'Bearer token'
+      });
+    });
+
+    it('return basic authentication for urls of the mirror', () => {
+      const inputStub = sandbox.stub(tl, 'getInput');
+      inputStub.withArgs('mirrorUrl').returns('https://nexus/openshift');
+      inputStub.withArgs('mirrorUsername').returns('user');
+      inputStub.withArgs('mirrorPassword').returns('pass');
+      sandbox.stub(tl, 'setSecret');
+      expect(getMirrorHeaders('https://nexus/openshift/pub/oc')).deep.equals({
+        Authorization: `Basic ${Buffer.from('user:pass').toString('base64')}`
+      });
+    });
+
+    it('return no headers for urls outside of the mirror', () => {
+      process.env.OPENSHIFT_MIRRORURL = 'https://nexus/openshift';
+      process.env.OPENSHIFT_MIRRORTOKEN = 'token';
+      sandbox.stub(tl, 'setSecret');
+      expect(getMirrorHeaders('https://nexus/openshift-other/oc')).deep.equals(
+        {}
+      );
+      expect(getMirrorHeaders('https://github.com/oc.tar.gz')).deep.equals({});
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import {
+  getOutputValue,
+  parseOutputVariables,
+  setOutputVariables
+} from '../src/oc-output';
+
+import tl = require('azure-pipelines-task-lib/task');
+
+const { expect } = chai;
+
+describe('oc-output', () => {
+  let sandbox: sinon.SinonSandbox;
+  const route = JSON.stringify({
+    spec: { host: 'web.apps.example.com' },
+    status: { ingress: [{ host: 'a' }, { host: 'b' }] }
+  });
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  describe('#parseOutputVariables', () => {
+    it('parse names, expressions and the secret flag', () => {
+      const variables = parseOutputVariables(
+        'host={.spec.host}\n\n secret token \n.spec.host\nsecret digest = .status.digest'
+      );
+      expect(variables.map(variable => variable.name)).deep.equals([
+        'host',
+        'token',
+        'output',
+        'digest'
+      ]);
+      expect(variables.map(variable => variable.secret)).deep.equals([
+        false,
+        true,
+        false,
+        true
+      ]);
+      expect(variables[1].expression).to.be.undefined;
+      expect(variables[3].expression).not.to.be.undefined;
+    });
+
+    it('return no variables for empty input', () => {
+      expect(parseOutputVariables(undefined)).deep.equals([]);
+    });
+
+    it('throw error for missing and invalid expressions', () => {
+      expect(() => parseOutputVariables('host=')).to.throw(
+        "Missing expression for output variable 'host'."
+      );
+      expect(() => parseOutputVariables('host={.spec[}')).to.throw(
+        "Invalid expression '{.spec[}'"
+      );
+    });
+  });
+
+  describe('#getOutputValue', () => {
+    it('return the trimmed output if there is no expression', () => {
+      const [variable] = parseOutputVariables('digest');
+      expect(getOutputValue('sha256:abc\n', variable)).equals('sha256:abc');
+    });
+
+    it('return the values selected by the expression', () => {
+      const [host, hosts] = parseOutputVariables(
+        'host={.spec.host}\nhosts=.status.ingress[*].host'
+      );
+      expect(getOutputValue(route, host)).equals('web.apps.example.com');
+      expect(getOutputValue(route, hosts)).equals('a b');
+    });
+
+    it('throw error if the output is no JSON', () => {
+      const [variable] = parseOutputVariables('host={.spec.host}');
+      expect(() => getOutputValue('NAME HOST', variable)).to.throw(
+        "Unable to evaluate output variable 'host', the output is no JSON. Add -o json to the command."
+      );
+    });
+
+    it('throw error if the expression matches nothing', () => {
+      const [variable] = parseOutputVariables('port={.spec.port}');
+      expect(() => getOutputValue(route, variable)).to.throw(
+        "The expression of output variable 'port' does not match the output."
+      );
+    });
+  });
+
+  describe('#setOutputVariables', () => {
+    it('set output variables and register secrets', () => {
+      const commandStub = sandbox.stub(tl, 'command');
+      const secretStub = sandbox.stub(tl, 'setSecret');
+      setOutputVariables(
+        route,
+        parseOutputVariables(
+          'host={.spec.host}\nsecret {.status.ingress[0].host}'
+        )
+      );
+      sinon.assert.calledWith(
+        commandStub,
+        'task.setvariable',
+        { variable: 'host', isOutput: 'true', issecret: 'false' },
+        'web.apps.example.com'
+      );
+      sinon.assert.calledWith(
+        commandStub,
+        'task.setvariable',
+        { variable: 'output', isOutput: 'true', issecret: 'true' },
+        'a'
+      );
+      sinon.assert.calledOnce(secretStub);
+      sinon.assert.calledWith(secretStub, 'a');
+    });
+  });
+});
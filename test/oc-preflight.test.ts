@@ -0,0 +1,223 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import { IExecSyncResult } from 'azure-pipelines-task-lib/toolrunner';
+import { RunnerHandler } from '../src/oc-exec';
+import {
+  classifyConnectionError,
+  getKubeConfigToken,
+  getTokenExpiry,
+  verifyConnection
+} from '../src/oc-preflight';
+
+import path = require('path');
+import tl = require('azure-pipelines-task-lib/task');
+import yaml = require('js-yaml');
+
+const { expect } = chai;
+
+function jwt(payload: object): string {
+  const encode = (value: object): string =>
+    Buffer.from(JSON.stringify(value))
+      .toString('base64')
+      .replace(/=+$/, '');
+  return `${encode({ alg: 'RS256' })}.${encode(payload)}.signature`;
+}
+
+function execResult(
+  code: number,
+  stdout: string,
+  stderr = ''
+): IExecSyncResult {
+  return { code, stdout, stderr, error: undefined };
+}
+
+describe('oc-preflight', () => {
+  let sandbox: sinon.SinonSandbox;
+  const testWorkingDir = path.join(__dirname, '..', 'out', 'test', 'preflight');
+  const kubeConfigPath = path.join(testWorkingDir, 'kubeconfig');
+  const server = 'https://api.cluster.example.com:6443';
+
+  function writeKubeConfig(token: string): void {
+    tl.mkdirP(testWorkingDir);
+    fs.writeFileSync(
+      kubeConfigPath,
+      yaml.safeDump({
+        users: [
+          { name: 'other', user: { token: 'other' } },
+          { name: 'ci', user: { token } }
+        ],
+        contexts: [{ name: 'ci', context: { cluster: 'ci', user: 'ci' } }],
+        'current-context': 'ci'
+      })
+    );
+    process.env.KUBECONFIG = kubeConfigPath;
+  }
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    tl.rmRF(testWorkingDir);
+    delete process.env.KUBECONFIG;
+  });
+
+  describe('#classifyConnectionError', () => {
+    it('explain certificates signed by an unknown authority', () => {
+      expect(
+        classifyConnectionError(
+          'Unable to connect to the server: x509: certificate signed by unknown authority',
+          server
+        )
+      ).to.match(
+        /^The certificate of https:\/\/api.cluster.example.com:6443 is signed by an unknown authority. Configure the certificate authority/
+      );
+      expect(
+        classifyConnectionError(
+          'request to https://server failed, reason: self signed certificate in certificate chain',
+          server
+        )
+      ).to.contain('signed by an unknown authority');
+    });
+
+    it('explain rejected credentials', () => {
+      expect(
+        classifyConnectionError(
+          'error: You must be logged in to the server (Unauthorized)',
+          server
+        )
+      ).to.contain('The token has expired or was revoked');
+    });
+
+    it('explain unreachable servers', () => {
+      expect(
+        classifyConnectionError(
+          'Unable to connect to the server: dial tcp: lookup api.cluster.example.com: no such host',
+          server
+        )
+      ).to.contain(`The server ${server} is unreachable.`);
+      expect(
+        classifyConnectionError(
+          'request to https://server failed, reason: connect ECONNREFUSED 127.0.0.1:6443',
+          server
+        )
+      ).to.contain('is unreachable');
+    });
+
+    it('keep the original message of unknown errors', () => {
+      expect(classifyConnectionError('error: boom\n', server)).equals(
+        `Unable to connect to ${server}. Details: error: boom`
+      );
+    });
+  });
+
+  describe('#getTokenExpiry', () => {
+    it('return the expiry of JWT tokens', () => {
+      expect(getTokenExpiry(jwt({ exp: 1700000000 }))).deep.equals(
+        new Date(1700000000000)
+      );
+    });
+
+    it('return undefined for opaque tokens and tokens without expiry', () => {
+      expect(getTokenExpiry('sha256~token')).to.be.undefined;
+      expect(getTokenExpiry(jwt({ sub: 'system:serviceaccount:ci:deployer' })))
+        .to.be.undefined;
+    });
+  });
+
+  describe('#getKubeConfigToken', () => {
+    it('return the token of the user of the current context', () => {
+      writeKubeConfig('token');
+      expect(getKubeConfigToken(kubeConfigPath)).equals('token');
+    });
+
+    it('return undefined if the kubeconfig cannot be read', () => {
+      expect(getKubeConfigToken(kubeConfigPath)).to.be.undefined;
+    });
+  });
+
+  describe('#verifyConnection', () => {
+    it('log the authenticated user, server and token expiry', async () => {
+      const expiry = new Date(Date.now() + 3600000);
+      writeKubeConfig(jwt({ exp: Math.floor(expiry.getTime() / 1000) }));
+      const execStub = sandbox.stub(RunnerHandler, 'execOcSync');
+      execStub.onFirstCall().returns(execResult(0, `${server}\n`));
+      execStub
+        .onSecondCall()
+        .returns(execResult(0, 'system:serviceaccount:ci:deployer\n'));
+      const logStub = sandbox.stub(console, 'log');
+      await verifyConnection('path/oc');
+      logStub.restore();
+      sinon.assert.calledWith(execStub, 'path/oc', 'whoami --show-server');
+      sinon.assert.calledWith(execStub, 'path/oc', 'whoami');
+      sinon.assert.calledWith(
+        logStub,
+        `Authenticated as system:serviceaccount:ci:deployer on ${server}, token expires at ${new Date(
+          Math.floor(expiry.getTime() / 1000) * 1000
+        ).toISOString()}`
+      );
+    });
+
+    it('throw error if the token has expired', async () => {
+      writeKubeConfig(jwt({ exp: 1700000000 }));
+      const execStub = sandbox.stub(RunnerHandler, 'execOcSync');
+      execStub.returns(execResult(0, server));
+      try {
+        await verifyConnection('path/oc');
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          `The token for ${server} expired at 2023-11-14T22:13:20.000Z. Renew the credentials of the service connection.`
+        );
+      }
+      sinon.assert.calledOnce(execStub);
+    });
+
+    it('throw classified error if oc whoami fails', async () => {
+      writeKubeConfig('sha256~token');
+      const execStub = sandbox.stub(RunnerHandler, 'execOcSync');
+      execStub.onFirstCall().returns(execResult(0, server));
+      execStub.onSecondCall().returns(
+        execResult(
+          1,
+          '',
+          'error: You must be logged in to the server (Unauthorized)'
+        )
+      );
+      try {
+        await verifyConnection('path/oc');
+        expect.fail();
+      } catch (err) {
+        expect(err.message).to.contain(
+          `The credentials were rejected by ${server}.`
+        );
+      }
+    });
+
+    it('accept clusters without the OpenShift user API', async () => {
+      writeKubeConfig('token');
+      const execStub = sandbox.stub(RunnerHandler, 'execOcSync');
+      execStub.onFirstCall().returns(execResult(0, server));
+      execStub.onSecondCall().returns(
+        execResult(
+          1,
+          '',
+          'error: the server could not find the requested resource (get users.user.openshift.io ~)'
+        )
+      );
+      const logStub = sandbox.stub(console, 'log');
+      await verifyConnection('path/oc');
+      logStub.restore();
+      sinon.assert.calledWith(
+        logStub,
+        `Authenticated as unknown user on ${server}`
+      );
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import {
+  DEFAULT_RETRY_PATTERNS,
+  createRetryOptions,
+  findRetryableError,
+  getNonIdempotentCommand,
+  getRetryDelay
+} from '../src/oc-retry';
+import { parseCommandLine } from '../src/utils/shell-parser';
+
+const { expect } = chai;
+
+describe('oc-retry', () => {
+  describe('#createRetryOptions', () => {
+    it('disable retries by default', () => {
+      expect(createRetryOptions('', undefined, '', [], false)).deep.equals({
+        attempts: 1,
+        delay: 5000,
+        backoff: 'exponential',
+        patterns: DEFAULT_RETRY_PATTERNS,
+        retryNonIdempotent: false
+      });
+    });
+
+    it('add custom patterns to the default patterns', () => {
+      const options = createRetryOptions('4', '2', 'Linear', [/quota/], true);
+      expect(options.attempts).equals(4);
+      expect(options.delay).equals(2000);
+      expect(options.backoff).equals('linear');
+      expect(options.patterns).deep.equals([
+        ...DEFAULT_RETRY_PATTERNS,
+        /quota/
+      ]);
+    });
+
+    it('throw error for invalid values', () => {
+      expect(() => createRetryOptions('two', '', '', [], false)).to.throw(
+        "Invalid number of attempts 'two'. Specify a whole number."
+      );
+      expect(() => createRetryOptions('', '-1', '', [], false)).to.throw(
+        "Invalid retry delay '-1'. Specify a whole number."
+      );
+      expect(() => createRetryOptions('', '', 'random', [], false)).to.throw(
+        "Unknown backoff 'random'. Use exponential, linear or fixed."
+      );
+    });
+  });
+
+  describe('#getRetryDelay', () => {
+    it('grow the delay according to the backoff', () => {
+      const delays = (backoff: string): number[] =>
+        [1, 2, 3].map(retry =>
+          getRetryDelay(createRetryOptions('4', '1', backoff, [], false), retry)
+        );
+      expect(delays('exponential')).deep.equals([1000, 2000, 4000]);
+      expect(delays('linear')).deep.equals([1000, 2000, 3000]);
+      expect(delays('fixed')).deep.equals([1000, 1000, 1000]);
+    });
+  });
+
+  describe('#findRetryableError', () => {
+    const options = createRetryOptions('3', '', '', [], false);
+
+    it('return the line matching a retry pattern', () => {
+      expect(
+        findRetryableError(
+          'W1019 warning\nError from server: etcdserver: leader changed\n',
+          options
+        )
+      ).equals('Error from server: etcdserver: leader changed');
+    });
+
+    it('return the line reporting a rate limit', () => {
+      expect(
+        findRetryableError(
+          'Error from server (TooManyRequests): the server has received too many requests',
+          options
+        )
+      ).equals(
+        'Error from server (TooManyRequests): the server has received too many requests'
+      );
+      expect(
+        findRetryableError('error: unexpected status code 429', options)
+      ).equals('error: unexpected status code 429');
+    });
+
+    it('return undefined for other errors', () => {
+      expect(findRetryableError('error: pods "x" not found', options)).to.be
+        .undefined;
+      expect(
+        findRetryableError(
+          'Error from server (NotFound): pods "web-429" not found',
+          options
+        )
+      ).to.be.undefined;
+    });
+  });
+
+  describe('#getNonIdempotentCommand', () => {
+    function check(line: string): string | undefined {
+      return getNonIdempotentCommand(parseCommandLine(line)[0].pipeline);
+    }
+
+    it('find non idempotent sub-commands', () => {
+      expect(check('oc create -f pod.yaml')).equals('create');
+      expect(check('oc -n ci new-app nginx')).equals('new-app');
+      expect(check('oc rollout restart dc/app')).equals('rollout restart');
+      expect(check('oc get pods | oc create -f -')).equals('create');
+    });
+
+    it('return undefined for idempotent commands', () => {
+      expect(check('oc apply -f pod.yaml')).to.be.undefined;
+      expect(check('oc rollout status dc/app')).to.be.undefined;
+      expect(check('oc get pods | grep create')).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import { RunnerHandler } from '../src/oc-exec';
+import {
+  ScriptCommand,
+  execScript,
+  formatSummary,
+  parsePatterns,
+  parseScript,
+  runScript,
+  toFailurePolicy
+} from '../src/oc-script';
+
+import tl = require('azure-pipelines-task-lib/task');
+
+const { expect } = chai;
+
+describe('oc-script', () => {
+  let sandbox: sinon.SinonSandbox;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  function command(
+    line: number,
+    text: string,
+    policy: 'stop' | 'continue' | 'ignore' = 'stop',
+    ignorePatterns: RegExp[] = []
+  ): ScriptCommand {
+    return { line, command: text, policy, ignorePatterns };
+  }
+
+  function stubExecOc(codes: { [command: string]: number }): sinon.SinonStub {
+    return sandbox
+      .stub(RunnerHandler, 'execOc')
+      .callsFake(async (_path: string, argLine: string) => ({
+        code: codes[argLine] || 0,
+        stdout: '',
+        stderr: codes[argLine] ? `error: ${argLine} AlreadyExists` : ''
+      }));
+  }
+
+  describe('#toFailurePolicy', () => {
+    it('default to stop', () => {
+      expect(toFailurePolicy('')).equals('stop');
+      expect(toFailurePolicy(' Continue ')).equals('continue');
+    });
+
+    it('throw error for unknown policies', () => {
+      expect(() => toFailurePolicy('retry')).to.throw(
+        "Unknown failure policy 'retry'. Use stop, continue or ignore."
+      );
+    });
+  });
+
+  describe('#parsePatterns', () => {
+    it('compile one pattern per line', () => {
+      expect(parsePatterns('AlreadyExists\n\n  NotFound$ \n')).deep.equals([
+        /AlreadyExists/,
+        /NotFound$/
+      ]);
+    });
+
+    it('throw error for invalid patterns', () => {
+      expect(() => parsePatterns('(')).to.throw("Invalid ignore pattern '('.");
+    });
+  });
+
+  describe('#parseScript', () => {
+    it('return one command per line skipping blank lines and comments', () => {
+      const script =
+        '# deploy\n\nget pods  \r\napply -f "a # b.yaml" # apply it\n';
+      expect(parseScript(script, 'continue', [])).deep.equals([
+        command(3, 'get pods', 'continue'),
+        command(4, 'apply -f "a # b.yaml"', 'continue')
+      ]);
+    });
+
+    it('apply failure directives of trailing comments', () => {
+      const patterns = [/NotFound/];
+      const commands = parseScript(
+        [
+          'create ns ci # on-failure: ignore AlreadyExists',
+          'delete pod x # on-failure: continue',
+          'get pods # on-failure: ignore'
+        ].join('\n'),
+        'stop',
+        patterns
+      );
+      expect(commands).deep.equals([
+        command(1, 'create ns ci', 'ignore', [/NotFound/, /AlreadyExists/]),
+        command(2, 'delete pod x', 'continue', patterns),
+        command(3, 'get pods', 'ignore', patterns)
+      ]);
+    });
+
+    it('report the line of syntax errors', () => {
+      expect(() => parseScript('get pods\nget pods &&\n', 'stop', [])).to.throw(
+        "Line 2: Syntax error at position 12: unexpected end of command after '&&'"
+      );
+      expect(() =>
+        parseScript('get pods # on-failure: retry', 'stop', [])
+      ).to.throw("Line 1: Unknown failure policy 'retry'");
+    });
+  });
+
+  describe('#runScript', () => {
+    beforeEach(() => {
+      sandbox.stub(console, 'log');
+    });
+
+    it('skip the remaining commands after a failure with stop policy', async () => {
+      const execStub = stubExecOc({ fail: 1 });
+      const results = await runScript('path/oc', [
+        command(1, 'first'),
+        command(2, 'fail'),
+        command(3, 'last')
+      ]);
+      expect(results.map(result => result.status)).deep.equals([
+        'succeeded',
+        'failed',
+        'skipped'
+      ]);
+      expect(results.map(result => result.code)).deep.equals([0, 1, undefined]);
+      sinon.assert.calledTwice(execStub);
+      sinon.assert.calledWith(execStub, 'path/oc', 'first', true);
+    });
+
+    it('run the remaining commands after a failure with continue policy', async () => {
+      stubExecOc({ fail: 1 });
+      const results = await runScript('path/oc', [
+        command(1, 'fail', 'continue'),
+        command(2, 'last')
+      ]);
+      expect(results.map(result => result.status)).deep.equals([
+        'failed',
+        'succeeded'
+      ]);
+    });
+
+    it('ignore failures matching the ignore patterns', async () => {
+      stubExecOc({ create: 1, delete: 1 });
+      const warningStub = sandbox.stub(tl, 'warning');
+      const results = await runScript('path/oc', [
+        command(1, 'create', 'ignore', [/AlreadyExists/]),
+        command(2, 'delete', 'ignore', [/NotFound/]),
+        command(3, 'last')
+      ]);
+      expect(results.map(result => result.status)).deep.equals([
+        'ignored',
+        'failed',
+        'skipped'
+      ]);
+      sinon.assert.calledOnce(warningStub);
+    });
+
+    it('report commands which timed out without failing', async () => {
+      sandbox
+        .stub(RunnerHandler, 'execOc')
+        .resolves({ code: 0, stdout: '', stderr: '', timedOut: true });
+      const results = await runScript('path/oc', [
+        command(1, 'logs -f dc/app'),
+        command(2, 'last')
+      ]);
+      expect(results.map(result => result.status)).deep.equals([
+        'timed out',
+        'timed out'
+      ]);
+    });
+
+    it('fail commands which cannot be started', async () => {
+      sandbox.stub(RunnerHandler, 'execOc').rejects(new Error('not found'));
+      const errorStub = sandbox.stub(tl, 'error');
+      const results = await runScript('path/oc', [command(1, 'grep')]);
+      expect(results[0].status).equals('failed');
+      expect(results[0].code).to.be.undefined;
+      sinon.assert.calledWith(errorStub, 'not found');
+    });
+
+    it('run every command in its own log group', async () => {
+      stubExecOc({});
+      await runScript('path/oc', [command(1, 'get pods')]);
+      const logStub = console.log as sinon.SinonStub;
+      sinon.assert.calledWith(logStub, '##[group]get pods');
+      sinon.assert.calledWith(logStub, '##[endgroup]');
+    });
+  });
+
+  describe('#formatSummary', () => {
+    it('show exit code, duration and status of every line', () => {
+      expect(
+        formatSummary([
+          {
+            command: command(1, 'get pods'),
+            status: 'succeeded',
+            code: 0,
+            duration: 1234
+          },
+          {
+            command: command(12, 'delete pod x'),
+            status: 'skipped',
+            duration: 0
+          }
+        ])
+      ).equals(
+        [
+          'Line  Exit code  Duration  Status     Command',
+          '1     0          1.2s      succeeded  get pods',
+          '12    -          -         skipped    delete pod x'
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('#execScript', () => {
+    beforeEach(() => {
+      sandbox.stub(console, 'log');
+    });
+
+    it('log the summary and succeed if no command failed', async () => {
+      stubExecOc({});
+      await execScript('path/oc', 'get pods\nget nodes', 'stop', []);
+      sinon.assert.calledWith(
+        console.log as sinon.SinonStub,
+        sinon.match(/^Line {2}Exit code/)
+      );
+    });
+
+    it('throw error listing the failed lines', async () => {
+      stubExecOc({ 'get pods': 1, 'get nodes': 2 });
+      try {
+        await execScript(
+          'path/oc',
+          'get pods\nwhoami\nget nodes',
+          'continue',
+          []
+        );
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals('2 of 3 commands failed (lines 1, 3).');
+      }
+    });
+
+    it('throw error for empty scripts', async () => {
+      try {
+        await execScript('path/oc', '# nothing\n', 'stop', []);
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals('The script contains no commands.');
+      }
+    });
+  });
+});
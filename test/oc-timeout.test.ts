@@ -0,0 +1,89 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import { EventEmitter } from 'events';
+import {
+  createTimeoutOptions,
+  spawnProcess,
+  terminateProcesses
+} from '../src/oc-timeout';
+
+const { expect } = chai;
+
+describe('oc-timeout', () => {
+  let sandbox: sinon.SinonSandbox;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  describe('#createTimeoutOptions', () => {
+    it('disable the timeout by default', () => {
+      expect(createTimeoutOptions('', '')).deep.equals({
+        timeout: 0,
+        onTimeout: 'fail'
+      });
+    });
+
+    it('convert the timeout to milliseconds', () => {
+      expect(createTimeoutOptions('90', 'SucceedWithIssues')).deep.equals({
+        timeout: 90000,
+        onTimeout: 'succeedWithIssues'
+      });
+    });
+
+    it('throw error for invalid values', () => {
+      expect(() => createTimeoutOptions('1m', 'warn')).to.throw(
+        "Invalid timeout '1m'. Specify a whole number."
+      );
+      expect(() => createTimeoutOptions('60', 'ignore')).to.throw(
+        "Unknown timeout behavior 'ignore'. Use fail, warn or succeedWithIssues."
+      );
+    });
+  });
+
+  describe('#spawnProcess', () => {
+    it('record the command line and the exit of the process', async () => {
+      const spawned = spawnProcess(
+        process.execPath,
+        ['-e', 'process.exit(0)'],
+        'ignore'
+      );
+      expect(spawned.command).equals(`${process.execPath} -e process.exit(0)`);
+      expect(spawned.exited).equals(false);
+      await new Promise(resolve => spawned.process.on('exit', resolve));
+      expect(spawned.exited).equals(true);
+    });
+  });
+
+  describe('#terminateProcesses', () => {
+    it('terminate the processes which are still running', () => {
+      sandbox.stub(console, 'log');
+      const fakeProcess = (): any =>
+        Object.assign(new EventEmitter(), { pid: 42, kill: sandbox.stub() });
+      const running = fakeProcess();
+      const exited = fakeProcess();
+      const terminated = terminateProcesses(
+        [
+          { command: 'oc logs -f dc/app', process: running, exited: false },
+          { command: 'oc get pods', process: exited, exited: true }
+        ],
+        'Timeout of 30s expired'
+      );
+      expect(terminated).deep.equals(['oc logs -f dc/app']);
+      sinon.assert.calledWith(running.kill, 'SIGTERM');
+      sinon.assert.notCalled(exited.kill);
+      sinon.assert.calledWith(
+        console.log as sinon.SinonStub,
+        "Timeout of 30s expired, terminating 'oc logs -f dc/app' (pid 42)."
+      );
+    });
+  });
+});
@@ -0,0 +1,365 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { VersionHandler } from '../src/oc-version';
+import { OpenShiftEndpoint } from '../src/oc-auth';
+
+import path = require('path');
+import tl = require('azure-pipelines-task-lib/task');
+
+const { expect } = chai;
+
+describe('VersionHandler', () => {
+  let sandbox: sinon.SinonSandbox;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  describe('#isVersionRange', () => {
+    it('return true for wildcards and ranges', () => {
+      expect(VersionHandler.isVersionRange('4.6.x')).to.be.true;
+      expect(VersionHandler.isVersionRange('4.*')).to.be.true;
+      expect(VersionHandler.isVersionRange('~4.7')).to.be.true;
+      expect(VersionHandler.isVersionRange('^4.5.0')).to.be.true;
+      expect(VersionHandler.isVersionRange('>=4.5 <4.8')).to.be.true;
+    });
+
+    it('return false for explicit and (major).(minor) versions', () => {
+      expect(VersionHandler.isVersionRange('4.6.1')).to.be.false;
+      expect(VersionHandler.isVersionRange('v3.11.0')).to.be.false;
+      expect(VersionHandler.isVersionRange('4.6')).to.be.false;
+    });
+
+    it('return false for empty version, channels and urls', () => {
+      expect(VersionHandler.isVersionRange('')).to.be.false;
+      expect(VersionHandler.isVersionRange(null)).to.be.false;
+      expect(VersionHandler.isVersionRange('stable-4.8')).to.be.false;
+      expect(
+        VersionHandler.isVersionRange('https://mirror/4.6.1/linux/oc.tar.gz')
+      ).to.be.false;
+    });
+  });
+
+  describe('#isChannel', () => {
+    it('return true for release channels', () => {
+      expect(VersionHandler.isChannel('stable-4.8')).to.be.true;
+      expect(VersionHandler.isChannel('fast-4.10')).to.be.true;
+    });
+
+    it('return false for versions', () => {
+      expect(VersionHandler.isChannel('4.8')).to.be.false;
+      expect(VersionHandler.isChannel('stable')).to.be.false;
+      expect(VersionHandler.isChannel(undefined)).to.be.false;
+    });
+  });
+
+  describe('#parseDirectoryIndex', () => {
+    it('return version directories listed in the index', () => {
+      const index = `<html><body>
+        <a href="../">Parent Directory</a>
+        <a href="4.5.0/">4.5.0/</a>
+        <a href="4.5.41/">4.5.41/</a>
+        <a href="/pub/openshift-v4/clients/oc/4.6/">4.6/</a>
+        <a href="4.7.0-rc.1/">4.7.0-rc.1/</a>
+        <a href="latest/">latest/</a>
+        <a href="stable-4.8/">stable-4.8/</a>
+        <a href="sha256sum.txt">sha256sum.txt</a>
+        <a href="4.5.0/">4.5.0/</a>
+      </body></html>`;
+      expect(VersionHandler.parseDirectoryIndex(index)).deep.equals([
+        '4.5.0',
+        '4.5.41',
+        '4.6'
+      ]);
+    });
+  });
+
+  describe('#toSemver', () => {
+    it('return semver version for release directories', () => {
+      expect(VersionHandler.toSemver('4.6')).equals('4.6.0');
+      expect(VersionHandler.toSemver('v4.6.3')).equals('4.6.3');
+      expect(VersionHandler.toSemver('3.3.1.46.45')).equals('3.3.1');
+    });
+
+    it('return null for invalid versions', () => {
+      expect(VersionHandler.toSemver('4')).to.be.null;
+    });
+  });
+
+  describe('#maxSatisfying', () => {
+    const versions = ['3.11.154', '4.5.0', '4.5.41', '4.6.1', '4.6.12', '4.7.2', '4.8.0'];
+
+    it('return newest release matching a wildcard', () => {
+      expect(VersionHandler.maxSatisfying(versions, '4.6.x')).equals('4.6.12');
+    });
+
+    it('return newest release matching a tilde range', () => {
+      expect(VersionHandler.maxSatisfying(versions, '~4.7')).equals('4.7.2');
+    });
+
+    it('return newest release matching a comparator range', () => {
+      expect(VersionHandler.maxSatisfying(versions, '>=4.5 <4.8')).equals(
+        '4.7.2'
+      );
+    });
+
+    it('return null if no release matches', () => {
+      expect(VersionHandler.maxSatisfying(versions, '~4.9')).to.be.null;
+    });
+  });
+
+  describe('#resolveVersionRange', () => {
+    it('return newest release matching the range from all mirrors', async () => {
+      const listStub = sandbox.stub(VersionHandler, 'listVersions');
+      listStub.withArgs('v3').resolves(['3.10.183', '3.11.154']);
+      listStub.withArgs('v4').resolves(['4.5.41', '4.6.12']);
+      const res = await VersionHandler.resolveVersionRange(
+        '>=3.11',
+        ['v3', 'v4'],
+        ''
+      );
+      expect(res).equals('4.6.12');
+    });
+
+    it('return null if mirrors cannot be listed', async () => {
+      sandbox.stub(VersionHandler, 'listVersions').resolves([]);
+      const res = await VersionHandler.resolveVersionRange('4.x', ['v4'], '');
+      expect(res).to.be.null;
+    });
+  });
+
+  describe('#latestPatches', () => {
+    it('return newest patch release per (major).(minor)', () => {
+      const versions = ['3.11.0', '3.11.154', '3.11.43', '4.6', '4.6.12', '4.6.9', '4.9.0'];
+      expect(VersionHandler.latestPatches(versions)).deep.equals({
+        '3.11': '3.11.154',
+        '4.6': '4.6.12',
+        '4.9': '4.9.0'
+      });
+    });
+  });
+
+  describe('#latestPatch', () => {
+    it('return newest patch release of the (major).(minor) of the version', async () => {
+      sandbox
+        .stub(VersionHandler, 'listVersions')
+        .resolves(['4.8.3', '4.9.0', '4.9.11', '4.10.1']);
+      const res = await VersionHandler.latestPatch('4.9', ['v4'], '');
+      expect(res).equals('4.9.11');
+    });
+
+    it('return null if (major).(minor) is not published', async () => {
+      sandbox.stub(VersionHandler, 'listVersions').resolves(['4.8.3']);
+      const res = await VersionHandler.latestPatch('4.9.2', ['v4'], '');
+      expect(res).to.be.null;
+    });
+
+    it('return null if version is invalid', async () => {
+      const listStub = sandbox.stub(VersionHandler, 'listVersions');
+      const res = await VersionHandler.latestPatch('4', ['v4'], '');
+      expect(res).to.be.null;
+      expect(listStub.called).to.be.false;
+    });
+  });
+
+  describe('#listVersions', () => {
+    const testOutDir = path.join(__dirname, '..', 'out', 'test', 'ocVersion');
+
+    beforeEach(() => {
+      tl.mkdirP(testOutDir);
+      process.env.AGENT_TEMPDIRECTORY = testOutDir;
+    });
+
+    afterEach(() => {
+      tl.rmRF(testOutDir);
+      delete process.env.AGENT_TEMPDIRECTORY;
+    });
+
+    it('return directory index cached for the job', async () => {
+      VersionHandler.writeIndexCache({ 'https://mirror/oc': ['4.6.1'] });
+      const res = await VersionHandler.listVersions('https://mirror/oc', '');
+      expect(res).deep.equals(['4.6.1']);
+    });
+
+    it('return empty list if index cannot be fetched', async () => {
+      const res = await VersionHandler.listVersions('invalid', '');
+      expect(res).deep.equals([]);
+      expect(fs.existsSync(VersionHandler.getIndexCachePath())).to.be.false;
+    });
+  });
+
+  describe('#resolveChannel', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    before(done => {
+      server = http.createServer((req, res) => {
+        if (req.url !== '/ocp/stable-4.8/release.txt') {
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end(
+          'Client tools for OpenShift\n\nName:      4.8.57\nDigest:    sha256:abc\n'
+        );
+      });
+      server.listen(0, '127.0.0.1', () => {
+        baseUrl = `http://127.0.0.1:${
+          (server.address() as AddressInfo).port
+        }/ocp`;
+        done();
+      });
+    });
+
+    after(done => {
+      server.close(done);
+    });
+
+    it('return the release named by the release.txt of the channel', async () => {
+      const res = await VersionHandler.resolveChannel('stable-4.8', baseUrl);
+      expect(res).equals('4.8.57');
+    });
+
+    it('return null if the channel does not exist', async () => {
+      const res = await VersionHandler.resolveChannel('fast-4.99', baseUrl);
+      expect(res).to.be.null;
+    });
+  });
+
+  describe('#getServerVersion', () => {
+    let server: http.Server;
+    let endpoint: OpenShiftEndpoint;
+    let resources: { [apiPath: string]: object };
+    let requests: http.IncomingMessage[];
+
+    before(done => {
+      server = http.createServer((req, res) => {
+        requests.push(req);
+        const resource = resources[req.url];
+        if (!resource) {
+          res.writeHead(403);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(resource));
+      });
+      server.listen(0, '127.0.0.1', done);
+    });
+
+    after(done => {
+      server.close(done);
+    });
+
+    beforeEach(() => {
+      requests = [];
+      endpoint = {
+        serverUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+        parameters: { apitoken: 'sha256~token' },
+        scheme: 'Token'
+      };
+    });
+
+    it('return version of the clusterversion resource', async () => {
+      resources = {
+        '/apis/config.openshift.io/v1/clusterversions/version': {
+          status: { desired: { version: '4.6.12' } }
+        },
+        '/version': { gitVersion: 'v1.19.0+9f84db3' }
+      };
+      const res = await VersionHandler.getServerVersion(endpoint);
+      expect(res).equals('4.6');
+      expect(requests[0].headers.authorization).equals('Bearer sha256~token');
+    });
+
+    it('return openshift version of OpenShift 3 clusters', async () => {
+      resources = {
+        '/version/openshift': { gitVersion: 'v3.11.0+d4cacc0' },
+        '/version': { gitVersion: 'v1.11.0+d4cacc0' }
+      };
+      const res = await VersionHandler.getServerVersion(endpoint);
+      expect(res).equals('3.11');
+    });
+
+    it('derive version from kubernetes version if cluster version is not readable', async () => {
+      endpoint.scheme = 'UsernamePassword';
+      endpoint.parameters = { username: 'user', password: 'pass' };
+      resources = { '/version': { gitVersion: 'v1.20.0+bafe72f' } };
+      const res = await VersionHandler.getServerVersion(endpoint);
+      expect(res).equals('4.7');
+      expect(requests[0].headers.authorization).to.be.undefined;
+    });
+
+    it('return null if server version cannot be determined', async () => {
+      resources = {};
+      const res = await VersionHandler.getServerVersion(endpoint);
+      expect(res).to.be.null;
+      expect(requests.length).equals(3);
+    });
+  });
+
+  describe('#resolveAutoVersion', () => {
+    const endpoint: OpenShiftEndpoint = {
+      serverUrl: 'https://api.cluster:6443',
+      parameters: {},
+      scheme: 'None'
+    };
+
+    it('return version unchanged if it is not auto', async () => {
+      const serverStub = sandbox.stub(VersionHandler, 'getServerVersion');
+      const res = await VersionHandler.resolveAutoVersion('4.6.x', endpoint);
+      expect(res).equals('4.6.x');
+      expect(serverStub.called).to.be.false;
+    });
+
+    it('return server version if version is auto', async () => {
+      sandbox.stub(VersionHandler, 'getServerVersion').resolves('4.6');
+      const res = await VersionHandler.resolveAutoVersion('Auto', endpoint);
+      expect(res).equals('4.6');
+    });
+
+    it('return blank version if server version cannot be determined', async () => {
+      sandbox.stub(VersionHandler, 'getServerVersion').resolves(null);
+      const warningStub = sandbox.stub(tl, 'warning');
+      const res = await VersionHandler.resolveAutoVersion('auto', endpoint);
+      expect(res).equals('');
+      expect(warningStub.calledOnce).to.be.true;
+    });
+  });
+
+  describe('#kubeToOpenShiftVersion', () => {
+    it('return OpenShift version shipping the kubernetes version', () => {
+      expect(VersionHandler.kubeToOpenShiftVersion('v1.11.0+d4cacc0')).equals(
+        '3.11'
+      );
+      expect(VersionHandler.kubeToOpenShiftVersion('v1.13.4+3040211')).equals(
+        '4.1'
+      );
+      expect(VersionHandler.kubeToOpenShiftVersion('v1.14.6+8fc50dea9')).equals(
+        '4.2'
+      );
+      expect(VersionHandler.kubeToOpenShiftVersion('v1.16.2')).equals('4.3');
+      expect(VersionHandler.kubeToOpenShiftVersion('v1.25.4+77bec7a')).equals(
+        '4.12'
+      );
+    });
+
+    it('return null if no OpenShift release ships the kubernetes version', () => {
+      expect(VersionHandler.kubeToOpenShiftVersion('v1.15.0')).to.be.null;
+      expect(VersionHandler.kubeToOpenShiftVersion('v2.0.0')).to.be.null;
+      expect(VersionHandler.kubeToOpenShiftVersion('unknown')).to.be.null;
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import * as download from '../src/utils/download';
+import { downloadSecureFile } from '../src/utils/secure-file';
+
+import path = require('path');
+import tl = require('azure-pipelines-task-lib/task');
+
+const { expect } = chai;
+
+describe('secure-file', () => {
+  let sandbox: sinon.SinonSandbox;
+  const tempDir = path.join(__dirname, '..', 'out', 'test', 'secureFile');
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+    process.env.AGENT_TEMPDIRECTORY = tempDir;
+    process.env.SYSTEM_TEAMFOUNDATIONCOLLECTIONURI =
+      'https://dev.azure.com/org/';
+    process.env.SYSTEM_TEAMPROJECTID = 'project-id';
+    process.env['SECUREFILE_NAME_file-id'] = 'oc.tar.gz';
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+    tl.rmRF(tempDir);
+    delete process.env.AGENT_TEMPDIRECTORY;
+    delete process.env.SYSTEM_TEAMFOUNDATIONCOLLECTIONURI;
+    delete process.env.SYSTEM_TEAMPROJECTID;
+    delete process.env['SECUREFILE_NAME_file-id'];
+  });
+
+  describe('#downloadSecureFile', () => {
+    it('downloads secure file into agent temp directory', async () => {
+      sandbox.stub(tl, 'getSecureFileTicket').returns('ticket');
+      sandbox.stub(tl, 'getEndpointAuthorizationParameter').returns('token');
+      const downloadStub = sandbox.stub(download, 'downloadFile').resolves();
+      const res = await downloadSecureFile('file-id');
+      expect(res).equals(path.join(tempDir, 'oc.tar.gz'));
+      sinon.assert.calledWith(
+        downloadStub,
+        'https://dev.azure.com/org/project-id/_apis/distributedtask/securefiles/file-id?ticket=ticket&download=true&api-version=5.0-preview.1',
+        path.join(tempDir, 'oc.tar.gz'),
+        { headers: { Authorization: 'Bearer token' } }
+      );
+    });
+
+    it('throws error if pipeline is not authorized to use the secure file', async () => {
+      sandbox.stub(tl, 'getSecureFileTicket').returns(undefined);
+      const downloadStub = sandbox.stub(download, 'downloadFile');
+      try {
+        await downloadSecureFile('file-id');
+        expect.fail();
+      } catch (err) {
+        expect(err.message).equals(
+          'Unable to download secure file file-id. Make sure the pipeline is authorized to use it.'
+        );
+      }
+      expect(downloadStub.called).to.be.false;
+    });
+  });
+});
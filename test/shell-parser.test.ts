@@ -0,0 +1,186 @@
+/*-----------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ *-----------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import {
+  ShellSyntaxError,
+  parseCommandLine,
+  tokenize
+} from '../src/utils/shell-parser';
+
+const { expect } = chai;
+
+function words(line: string): string[] {
+  return tokenize(line).map(token => token.value);
+}
+
+function syntaxError(line: string): ShellSyntaxError {
+  try {
+    parseCommandLine(line);
+  } catch (err) {
+    expect(err).to.be.instanceOf(ShellSyntaxError);
+    return err;
+  }
+  throw new Error(`${line} was parsed`);
+}
+
+describe('shell-parser', () => {
+  before(() => {
+    process.env.VSTS_TEST_VAR = 'a b';
+    delete process.env.FOO;
+  });
+
+  after(() => {
+    delete process.env.VSTS_TEST_VAR;
+  });
+
+  describe('#tokenize', () => {
+    it('split words on whitespace', () => {
+      expect(words(' get  pods\t-n ci ')).deep.equals([
+        'get',
+        'pods',
+        '-n',
+        'ci'
+      ]);
+    });
+
+    it('keep operators inside quotes', () => {
+      expect(
+        words(`-o jsonpath='{.items[?(@.a>1)]}|x' "--template={{.a}} 2>&1"`)
+      ).deep.equals([
+        '-o',
+        'jsonpath={.items[?(@.a>1)]}|x',
+        '--template={{.a}} 2>&1'
+      ]);
+    });
+
+    it('handle escapes outside and inside double quotes', () => {
+      expect(words(`a\\ b \\| "say \\"hi\\" \\n" C:\\temp\\file`)).deep.equals([
+        'a b',
+        '|',
+        'say "hi" \\n',
+        'C:\\temp\\file'
+      ]);
+    });
+
+    it('interpolate environment variables without splitting them', () => {
+      expect(
+        words(
+          `\${VSTS_TEST_VAR} "x\${VSTS_TEST_VAR}" '\${VSTS_TEST_VAR}' \${FOO}`
+        )
+      ).deep.equals(['a b', 'xa b', 'a b', '${FOO}']);
+    });
+
+    it('treat # at the start of a word as comment', () => {
+      expect(tokenize(`get cm/a#b '#x' # get it`)).deep.equals([
+        { type: 'word', value: 'get', position: 0 },
+        { type: 'word', value: 'cm/a#b', position: 4 },
+        { type: 'word', value: '#x', position: 11 },
+        { type: 'comment', value: 'get it', position: 16 }
+      ]);
+    });
+
+    it('recognize 2> only at the start of a word', () => {
+      expect(tokenize('--replicas=2>out 2>err')).deep.equals([
+        { type: 'word', value: '--replicas=2', position: 0 },
+        { type: 'operator', value: '>', position: 12 },
+        { type: 'word', value: 'out', position: 13 },
+        { type: 'operator', value: '2>', position: 17 },
+        { type: 'word', value: 'err', position: 19 }
+      ]);
+    });
+  });
+
+  describe('#parseCommandLine', () => {
+    it('return an empty list for blank command lines', () => {
+      expect(parseCommandLine('  ')).deep.equals([]);
+    });
+
+    it('parse pipelines with redirections', () => {
+      expect(
+        parseCommandLine('get pods | grep web >> out.txt 2>&1')
+      ).deep.equals([
+        {
+          pipeline: {
+            commands: [
+              { args: ['get', 'pods'], redirects: [] },
+              {
+                args: ['grep', 'web'],
+                redirects: [
+                  { fd: 1, target: 'out.txt', append: true },
+                  { fd: 2, append: false }
+                ]
+              }
+            ],
+            text: 'get pods | grep web >> out.txt 2>&1'
+          },
+          operator: undefined
+        }
+      ]);
+    });
+
+    it('parse stderr redirections of commands piped into another command', () => {
+      const [entry] = parseCommandLine('get pods 2>/dev/null | grep web');
+      expect(entry.pipeline.commands).deep.equals([
+        {
+          args: ['get', 'pods'],
+          redirects: [{ fd: 2, target: '/dev/null', append: false }]
+        },
+        { args: ['grep', 'web'], redirects: [] }
+      ]);
+    });
+
+    it('ignore comments', () => {
+      const [entry] = parseCommandLine('get pods -n ci # list pods');
+      expect(entry.pipeline.text).equals('get pods -n ci');
+      expect(entry.pipeline.commands[0].args).deep.equals([
+        'get',
+        'pods',
+        '-n',
+        'ci'
+      ]);
+    });
+
+    it('parse command lists', () => {
+      const list = parseCommandLine(
+        'get pods 2> err.txt && get nodes || whoami; version;'
+      );
+      expect(
+        list.map(entry => [entry.operator, entry.pipeline.text])
+      ).deep.equals([
+        [undefined, 'get pods 2> err.txt'],
+        ['&&', 'get nodes'],
+        ['||', 'whoami'],
+        [';', 'version']
+      ]);
+      expect(list[0].pipeline.commands[0].redirects).deep.equals([
+        { fd: 2, target: 'err.txt', append: false }
+      ]);
+    });
+
+    it('report syntax errors with a caret at their position', () => {
+      expect(syntaxError(`get cm -o 'jsonpath={.data}`).message).equals(
+        "Syntax error at position 11: unterminated single quote\nget cm -o 'jsonpath={.data}\n          ^"
+      );
+      expect(syntaxError('get pods &&').message).equals(
+        "Syntax error at position 12: unexpected end of command after '&&'\nget pods &&\n           ^"
+      );
+    });
+
+    it('reject invalid command lines', () => {
+      expect(syntaxError('get pods "x').position).equals(9);
+      expect(syntaxError('get pods & get nodes').position).equals(9);
+      expect(syntaxError('get pods < in').position).equals(9);
+      expect(syntaxError('| grep x').position).equals(0);
+      expect(syntaxError('get pods || && whoami').position).equals(12);
+      expect(syntaxError('get pods >').message).to.contain(
+        "missing file name after '>'"
+      );
+      expect(syntaxError('get pods > out | grep x').message).to.contain(
+        'only stderr can be redirected to a file on a command piped into another command'
+      );
+      expect(syntaxError('get pods 2>&1 | grep x').position).equals(14);
+    });
+  });
+});